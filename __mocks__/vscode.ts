@@ -2,3 +2,71 @@
 export const vscode = {
   // mock the vscode API which you use in your project. Jest will tell you which keys are missing.
 };
+
+// enough of Position and Range for getRefAt
+export class Position {
+  constructor(public line: number, public character: number) {}
+
+  translate(lineDelta = 0, characterDelta = 0): Position {
+    return new Position(this.line + lineDelta, this.character + characterDelta);
+  }
+}
+
+export class Range {
+  start: Position;
+  end: Position;
+
+  // new Range(start, end) or new Range(startLine, startCharacter, endLine, endCharacter)
+  constructor(...args: Array<any>) {
+    if (args.length == 4) {
+      this.start = new Position(args[0], args[1]);
+      this.end = new Position(args[2], args[3]);
+    } else {
+      this.start = args[0];
+      this.end = args[1];
+    }
+  }
+}
+
+// enough of TreeItem to import the TreeDataProviders
+export class TreeItem {
+  constructor(public label: string, public collapsibleState: number) {}
+}
+
+// enough of Uri, WorkspaceEdit and workspace for the MarkdownRenameProvider
+export class Uri {
+  scheme = 'file';
+  constructor(public fsPath: string) {}
+
+  static file(fsPath: string): Uri {
+    return new Uri(fsPath);
+  }
+}
+
+export class WorkspaceEdit {
+  _edits: Map<string, Array<{ range: Range; newText: string }>> = new Map();
+  _renames: Array<[Uri, Uri]> = [];
+
+  replace(uri: Uri, range: Range, newText: string) {
+    let edits = this._edits.get(uri.fsPath) || [];
+    edits.push({ range: range, newText: newText });
+    this._edits.set(uri.fsPath, edits);
+  }
+
+  renameFile(oldUri: Uri, newUri: Uri) {
+    this._renames.push([oldUri, newUri]);
+  }
+
+  get size(): number {
+    return this._edits.size + this._renames.length;
+  }
+
+  entries(): Array<[Uri, Array<{ range: Range; newText: string }>]> {
+    return Array.from(this._edits.entries()).map(([fsPath, edits]) => [Uri.file(fsPath), edits]);
+  }
+}
+
+export const workspace = {
+  textDocuments: [],
+  applyEdit: async (edit: WorkspaceEdit) => true,
+};
@@ -0,0 +1,264 @@
+// The Note Graph webview (see src/NoteGraphPanel.ts).
+// A small force-directed layout (see graphLayout.js) drawn on a canvas, with no dependencies,
+// so it works offline.
+//
+// Messages from the extension:
+//   { type: 'graph', graph: { nodes, edges }, center, mode, hops }
+// Messages to the extension:
+//   { type: 'ready' }, { type: 'open', id }, { type: 'setMode', mode, hops }
+(function () {
+  const vscode = acquireVsCodeApi();
+  const canvas = document.getElementById('graph');
+  const ctx = canvas.getContext('2d');
+  const controls = document.getElementById('controls');
+  const hopsInput = document.getElementById('hops');
+  const status = document.getElementById('status');
+  const modeInputs = Array.from(document.querySelectorAll('input[name="mode"]'));
+
+  // the simulation stops once it has cooled this far, see tick()
+  const MIN_ALPHA = 0.005;
+
+  let nodes = [];
+  let edges = [];
+  let center;
+  // the ids of the nodes and edges, so that the layout is only reheated when they change
+  let shape = '';
+  // positions are kept by note, so that the layout doesn't jump when the graph is updated
+  let positions = new Map();
+  // the simulation cools as alpha goes to 0, and is reheated when the graph changes
+  let alpha = 1;
+  let running = false;
+
+  let view = { x: 0, y: 0, scale: 1 };
+  let hovered;
+  let drag;
+
+  function style(name, fallback) {
+    let value = getComputedStyle(document.body).getPropertyValue(name).trim();
+    return value || fallback;
+  }
+
+  function radius(node) {
+    return 4 + 3 * Math.sqrt(node.backlinks);
+  }
+
+  // a stable color per tag, so a tag has the same color in every graph
+  function color(node) {
+    if (node.tags.length == 0) {
+      return style('--vscode-descriptionForeground', '#888');
+    }
+    let tag = node.tags[0];
+    let hash = 0;
+    for (let i = 0; i < tag.length; i++) {
+      hash = (hash * 31 + tag.charCodeAt(i)) | 0;
+    }
+    return `hsl(${Math.abs(hash) % 360}, 60%, 55%)`;
+  }
+
+  function setGraph(graph) {
+    let kept = new Map();
+    nodes = graph.nodes.map((n) => {
+      let p = positions.get(n.id) || {
+        x: (Math.random() - 0.5) * 200,
+        y: (Math.random() - 0.5) * 200,
+        vx: 0,
+        vy: 0,
+      };
+      kept.set(n.id, p);
+      return Object.assign(p, n);
+    });
+    positions = kept;
+    edges = graph.edges
+      .map((e) => ({ source: positions.get(e.source), target: positions.get(e.target) }))
+      .filter((e) => e.source && e.target);
+    let noun = nodes.length == 1 ? 'note' : 'notes';
+    status.textContent = `${nodes.length} ${noun}, ${edges.length} links`;
+    let newShape = [
+      graph.nodes.map((n) => n.id).join('\n'),
+      graph.edges.map((e) => `${e.source}\n${e.target}`).join('\n'),
+    ].join('\n\n');
+    if (newShape != shape) {
+      shape = newShape;
+      reheat();
+    } else {
+      // eg, only a label or tag changed
+      draw();
+    }
+  }
+
+  function reheat() {
+    alpha = 1;
+    if (!running) {
+      running = true;
+      requestAnimationFrame(tick);
+    }
+  }
+
+  function tick() {
+    graphLayout.step(nodes, edges, alpha, drag && drag.node);
+    alpha *= 0.99;
+    draw();
+    if (alpha > MIN_ALPHA || drag) {
+      requestAnimationFrame(tick);
+    } else {
+      running = false;
+    }
+  }
+
+  function resize() {
+    let ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.clientWidth * ratio;
+    canvas.height = canvas.clientHeight * ratio;
+    draw();
+  }
+
+  function draw() {
+    let ratio = window.devicePixelRatio || 1;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, canvas.clientWidth, canvas.clientHeight);
+    ctx.translate(canvas.clientWidth / 2 + view.x, canvas.clientHeight / 2 + view.y);
+    ctx.scale(view.scale, view.scale);
+
+    ctx.strokeStyle = style('--vscode-editorIndentGuide-background', '#555');
+    ctx.lineWidth = 1 / view.scale;
+    ctx.beginPath();
+    edges.forEach((e) => {
+      ctx.moveTo(e.source.x, e.source.y);
+      ctx.lineTo(e.target.x, e.target.y);
+    });
+    ctx.stroke();
+
+    let foreground = style('--vscode-foreground', '#ccc');
+    let focus = style('--vscode-focusBorder', '#07f');
+    ctx.font = `${12 / view.scale}px ${style('--vscode-font-family', 'sans-serif')}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    nodes.forEach((n) => {
+      let r = radius(n);
+      ctx.beginPath();
+      ctx.arc(n.x, n.y, r, 0, 2 * Math.PI);
+      ctx.fillStyle = color(n);
+      ctx.fill();
+      if (n.id == center || n === hovered) {
+        ctx.lineWidth = 2 / view.scale;
+        ctx.strokeStyle = focus;
+        ctx.stroke();
+      }
+      // labels get in the way when zoomed out, except for the notes that matter right now
+      if (view.scale > 0.7 || n.id == center || n === hovered) {
+        ctx.fillStyle = foreground;
+        ctx.fillText(n.label, n.x, n.y + r + 2 / view.scale);
+      }
+    });
+  }
+
+  // the graph coordinates of a mouse event
+  function toGraph(event) {
+    let rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left - canvas.clientWidth / 2 - view.x) / view.scale,
+      y: (event.clientY - rect.top - canvas.clientHeight / 2 - view.y) / view.scale,
+    };
+  }
+
+  function nodeAt(event) {
+    let p = toGraph(event);
+    // the last drawn node is on top
+    for (let i = nodes.length - 1; i >= 0; i--) {
+      let n = nodes[i];
+      let r = radius(n) + 2 / view.scale;
+      if ((n.x - p.x) ** 2 + (n.y - p.y) ** 2 <= r * r) {
+        return n;
+      }
+    }
+  }
+
+  canvas.addEventListener('mousedown', (event) => {
+    let node = nodeAt(event);
+    drag = { node: node, startX: event.clientX, startY: event.clientY, moved: false };
+    if (!node) {
+      drag.viewX = view.x;
+      drag.viewY = view.y;
+    }
+    canvas.classList.add('dragging');
+  });
+
+  window.addEventListener('mousemove', (event) => {
+    if (!drag) {
+      let node = nodeAt(event);
+      if (node !== hovered) {
+        hovered = node;
+        canvas.classList.toggle('hovering', !!node);
+        canvas.title = node ? node.label : '';
+        draw();
+      }
+      return;
+    }
+    let dx = event.clientX - drag.startX;
+    let dy = event.clientY - drag.startY;
+    drag.moved = drag.moved || Math.abs(dx) + Math.abs(dy) > 3;
+    if (drag.node) {
+      let p = toGraph(event);
+      drag.node.x = p.x;
+      drag.node.y = p.y;
+      alpha = Math.max(alpha, 0.3);
+      if (!running) {
+        running = true;
+        requestAnimationFrame(tick);
+      }
+    } else {
+      view.x = drag.viewX + dx;
+      view.y = drag.viewY + dy;
+      draw();
+    }
+  });
+
+  window.addEventListener('mouseup', () => {
+    if (drag && drag.node && !drag.moved) {
+      vscode.postMessage({ type: 'open', id: drag.node.id });
+    }
+    drag = undefined;
+    canvas.classList.remove('dragging');
+  });
+
+  canvas.addEventListener(
+    'wheel',
+    (event) => {
+      event.preventDefault();
+      let before = toGraph(event);
+      let scale = view.scale * Math.exp(-event.deltaY * 0.001);
+      view.scale = Math.min(Math.max(scale, 0.1), 5);
+      // zoom around the mouse, rather than the middle of the canvas
+      let after = toGraph(event);
+      view.x += (after.x - before.x) * view.scale;
+      view.y += (after.y - before.y) * view.scale;
+      draw();
+    },
+    { passive: false }
+  );
+
+  function setMode() {
+    let mode = (modeInputs.find((i) => i.checked) || modeInputs[0]).value;
+    let hops = Math.min(Math.max(parseInt(hopsInput.value, 10) || 1, 1), 5);
+    controls.classList.toggle('global', mode == 'global');
+    vscode.postMessage({ type: 'setMode', mode: mode, hops: hops });
+  }
+
+  modeInputs.forEach((i) => i.addEventListener('change', setMode));
+  hopsInput.addEventListener('change', setMode);
+
+  window.addEventListener('message', (event) => {
+    let message = event.data;
+    if (message.type == 'graph') {
+      center = message.center;
+      modeInputs.forEach((i) => (i.checked = i.value == message.mode));
+      hopsInput.value = message.hops;
+      controls.classList.toggle('global', message.mode == 'global');
+      setGraph(message.graph);
+    }
+  });
+
+  window.addEventListener('resize', resize);
+  resize();
+  vscode.postMessage({ type: 'ready' });
+})();
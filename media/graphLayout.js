@@ -0,0 +1,132 @@
+// The force-directed layout of the Note Graph webview (see graph.js),
+// kept apart from the drawing so that it also loads in node, for the tests.
+//
+// Nodes are { x, y, vx, vy }, and edges are { source, target } pairs of nodes.
+(function (exports) {
+  // layout constants, in graph units (before zooming)
+  const REPULSION = 2000;
+  const SPRING_LENGTH = 60;
+  const SPRING_STRENGTH = 0.05;
+  const GRAVITY = 0.01;
+  const DAMPING = 0.85;
+  // the repulsion from a group of nodes that is further away than THETA times its size
+  // is approximated by that of its center of mass (Barnes–Hut), see repulse()
+  const THETA = 0.9;
+  const MAX_DEPTH = 20;
+
+  function newQuad(x, y, size) {
+    return { x: x, y: y, size: size, mass: 0, cx: 0, cy: 0, nodes: [], children: undefined };
+  }
+
+  function childFor(quad, n) {
+    let half = quad.size / 2;
+    let i = (n.x >= quad.x + half ? 1 : 0) + (n.y >= quad.y + half ? 2 : 0);
+    return quad.children[i];
+  }
+
+  // add `n` to the quad, and to its center of mass,
+  // splitting a leaf into 4 once it has more than 1 node
+  function insert(quad, n, depth) {
+    quad.cx = (quad.cx * quad.mass + n.x) / (quad.mass + 1);
+    quad.cy = (quad.cy * quad.mass + n.y) / (quad.mass + 1);
+    quad.mass++;
+    if (quad.children) {
+      insert(childFor(quad, n), n, depth + 1);
+      return;
+    }
+    quad.nodes.push(n);
+    // nodes on (almost) the same spot stay in 1 leaf, rather than splitting forever
+    if (quad.nodes.length > 1 && depth < MAX_DEPTH) {
+      let half = quad.size / 2;
+      quad.children = [0, 1, 2, 3].map((i) =>
+        newQuad(quad.x + (i & 1) * half, quad.y + (i >> 1) * half, half)
+      );
+      quad.nodes.forEach((m) => insert(childFor(quad, m), m, depth + 1));
+      quad.nodes = [];
+    }
+  }
+
+  function quadtree(nodes) {
+    let x0 = Infinity;
+    let y0 = Infinity;
+    let x1 = -Infinity;
+    let y1 = -Infinity;
+    nodes.forEach((n) => {
+      x0 = Math.min(x0, n.x);
+      y0 = Math.min(y0, n.y);
+      x1 = Math.max(x1, n.x);
+      y1 = Math.max(y1, n.y);
+    });
+    let root = newQuad(x0, y0, Math.max(x1 - x0, y1 - y0, 1) * 1.001);
+    nodes.forEach((n) => insert(root, n, 0));
+    return root;
+  }
+
+  // push `a` away from a `mass` of nodes at (a.x + dx, a.y + dy)
+  function push(a, dx, dy, mass, alpha) {
+    let d2 = Math.max(dx * dx + dy * dy, 1);
+    let d = Math.sqrt(d2);
+    let f = ((REPULSION * mass) / d2) * alpha;
+    a.vx -= (dx / d) * f;
+    a.vy -= (dy / d) * f;
+  }
+
+  // the repulsion of every node in `quad` on `a`,
+  // so that a step is O(n log n) instead of O(n²), and large graphs stay responsive
+  function repulse(quad, a, alpha) {
+    if (quad.mass == 0) {
+      return;
+    }
+    if (quad.children) {
+      let dx = quad.cx - a.x;
+      let dy = quad.cy - a.y;
+      if (quad.size * quad.size < THETA * THETA * (dx * dx + dy * dy)) {
+        push(a, dx, dy, quad.mass, alpha);
+      } else {
+        quad.children.forEach((child) => repulse(child, a, alpha));
+      }
+      return;
+    }
+    quad.nodes.forEach((b) => {
+      if (b !== a) {
+        push(a, b.x - a.x, b.y - a.y, 1, alpha);
+      }
+    });
+  }
+
+  // move the nodes 1 step, as the simulation cools (as `alpha` goes to 0),
+  // except for the `fixed` node, eg, the one being dragged
+  function step(nodes, edges, alpha, fixed) {
+    let root = quadtree(nodes);
+    nodes.forEach((n) => repulse(root, n, alpha));
+    edges.forEach((e) => {
+      let dx = e.target.x - e.source.x;
+      let dy = e.target.y - e.source.y;
+      let d = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+      let f = (d - SPRING_LENGTH) * SPRING_STRENGTH * alpha;
+      e.source.vx += (dx / d) * f;
+      e.source.vy += (dy / d) * f;
+      e.target.vx -= (dx / d) * f;
+      e.target.vy -= (dy / d) * f;
+    });
+    nodes.forEach((n) => {
+      n.vx -= n.x * GRAVITY * alpha;
+      n.vy -= n.y * GRAVITY * alpha;
+      if (n === fixed) {
+        n.vx = n.vy = 0;
+        return;
+      }
+      n.vx *= DAMPING;
+      n.vy *= DAMPING;
+      n.x += n.vx;
+      n.y += n.vy;
+    });
+  }
+
+  exports.SPRING_LENGTH = SPRING_LENGTH;
+  exports.MAX_DEPTH = MAX_DEPTH;
+  exports.quadtree = quadtree;
+  exports.push = push;
+  exports.repulse = repulse;
+  exports.step = step;
+})(typeof module === 'undefined' ? (window.graphLayout = {}) : module.exports);
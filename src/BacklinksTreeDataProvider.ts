@@ -1,20 +1,70 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import * as path from 'path';
 import { NoteParser } from './NoteParser';
+import { NoteWorkspace } from './NoteWorkspace';
 
-type FileWithLocations = {
+export type FileWithLocations = {
+  // the workspace-relative path of the file
   file: string;
   locations: vscode.Location[];
 };
+export enum BacklinkSortOrder {
+  Name = 'name',
+  Modified = 'modified',
+  Count = 'count',
+}
+
+// Explorer Panel for the notes that link to the active note:
+// - note.md (N References)
+//   - each line that links to the active note
+// - Unlinked References
+//   - note.md (N Mentions)
+//     - each line that mentions the active note
 export class BacklinksTreeDataProvider implements vscode.TreeDataProvider<BacklinkItem> {
-  constructor(private workspaceRoot: string | null) {}
-  _onDidChangeTreeData: vscode.EventEmitter<BacklinkItem> = new vscode.EventEmitter<BacklinkItem>();
-  onDidChangeTreeData: vscode.Event<BacklinkItem> = this._onDidChangeTreeData.event;
+  static SORT_ORDER_KEY = 'vscodeMarkdownNotes.backlinksSortOrder';
+  // only show the files and lines that contain this text (case insensitive)
+  filter = '';
+  // item id => whether it is expanded, for the items the user has expanded or collapsed,
+  // so that they stay that way when the tree is reloaded
+  _expanded: Map<string, boolean> = new Map();
+  constructor(private state: vscode.Memento) {}
+  _onDidChangeTreeData: vscode.EventEmitter<BacklinkItem | void> = new vscode.EventEmitter();
+  onDidChangeTreeData: vscode.Event<BacklinkItem | void> = this._onDidChangeTreeData.event;
   reload(): void {
     this._onDidChangeTreeData.fire();
   }
 
+  get sortOrder(): BacklinkSortOrder {
+    return this.state.get(BacklinksTreeDataProvider.SORT_ORDER_KEY, BacklinkSortOrder.Name);
+  }
+
+  setSortOrder(sortOrder: BacklinkSortOrder) {
+    this.state.update(BacklinksTreeDataProvider.SORT_ORDER_KEY, sortOrder);
+    this.reload();
+  }
+
+  setFilter(filter: string) {
+    this.filter = filter.trim();
+    let filtered = !!this.filter;
+    vscode.commands.executeCommand('setContext', 'vscodeMarkdownNotes.backlinksFiltered', filtered);
+    this.reload();
+  }
+
+  setExpanded(element: BacklinkItem, expanded: boolean) {
+    if (element.id) {
+      this._expanded.set(element.id, expanded);
+    }
+  }
+
+  _restoreExpansion(item: BacklinkItem): BacklinkItem {
+    let expanded = item.id ? this._expanded.get(item.id) : undefined;
+    if (expanded !== undefined) {
+      item.collapsibleState = expanded
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.Collapsed;
+    }
+    return item;
+  }
+
   getTreeItem(element: BacklinkItem): vscode.TreeItem {
     return element;
   }
@@ -29,14 +79,18 @@ export class BacklinksTreeDataProvider implements vscode.TreeDataProvider<Backli
   //   - l3
   // - file2.md
   //   - l2
-  // NB: does work well with relativePaths mode, assumes uniqueFilenames
-  static locationListToTree(locations: vscode.Location[]): FileWithLocations[] {
+  // Files are grouped by fsPath, so that with relativePaths,
+  // a/note.md and b/note.md are listed separately.
+  static locationListToTree(
+    locations: vscode.Location[],
+    relativePathFor: (fsPath: string) => string = (p) => vscode.workspace.asRelativePath(p)
+  ): FileWithLocations[] {
     let m: Record<string, FileWithLocations> = {};
     locations.map((l) => {
-      let f = path.basename(l.uri.fsPath);
+      let f = l.uri.fsPath;
       if (!m[f]) {
         let fwl: FileWithLocations = {
-          file: f,
+          file: relativePathFor(f),
           locations: [],
         };
         m[f] = fwl;
@@ -79,61 +133,193 @@ export class BacklinksTreeDataProvider implements vscode.TreeDataProvider<Backli
     });
   }
 
+  // the files with the given locations, filtered and sorted
+  async filesWithLocations(locations: vscode.Location[]): Promise<FileWithLocations[]> {
+    let files = BacklinksTreeDataProvider.locationListToTree(locations);
+    // make sure each note has been read, so its lines can be shown
+    await Promise.all(
+      files.map((fwl) => NoteParser.readNote(fwl.locations[0].uri.fsPath).catch(() => undefined))
+    );
+    files = BacklinksTreeDataProvider.filterFiles(files, this.filter, BacklinkItem.lineAt);
+    return BacklinksTreeDataProvider.sortFiles(files, this.sortOrder, (fsPath) => {
+      let note = NoteParser._notes[fsPath];
+      return note && note.stat ? note.stat.mtimeMs : 0;
+    });
+  }
+
+  // keep the files whose path contains `filter`,
+  // and from the other files, the locations whose line contains it
+  static filterFiles(
+    files: FileWithLocations[],
+    filter: string,
+    lineAt: (location: vscode.Location) => string
+  ): FileWithLocations[] {
+    let f = filter.toLowerCase();
+    if (!f) {
+      return files;
+    }
+    return files
+      .map((fwl) => {
+        if (fwl.file.toLowerCase().includes(f)) {
+          return fwl;
+        }
+        let locations = fwl.locations.filter((l) => lineAt(l).toLowerCase().includes(f));
+        return { file: fwl.file, locations: locations };
+      })
+      .filter((fwl) => fwl.locations.length > 0);
+  }
+
+  // files are already sorted by name (see locationListToTree),
+  // otherwise, sort the most recently modified, or the most links, first
+  static sortFiles(
+    files: FileWithLocations[],
+    sortOrder: BacklinkSortOrder,
+    mtimeFor: (fsPath: string) => number
+  ): FileWithLocations[] {
+    if (sortOrder == BacklinkSortOrder.Modified) {
+      let mtime = (fwl: FileWithLocations) => mtimeFor(fwl.locations[0].uri.fsPath);
+      return files.sort((a, b) => mtime(b) - mtime(a));
+    } else if (sortOrder == BacklinkSortOrder.Count) {
+      return files.sort((a, b) => b.locations.length - a.locations.length);
+    }
+    return files;
+  }
+
   getChildren(element?: BacklinkItem): Thenable<BacklinkItem[]> {
     let f = vscode.window.activeTextEditor?.document.uri.fsPath;
     if (!f) {
       // no activeTextEditor, so there can be no refs
       return Promise.resolve([]);
     }
-    if (!this.workspaceRoot) {
+    if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length == 0) {
       vscode.window.showInformationMessage('No refs in empty workspace');
       return Promise.resolve([]);
     }
-    let activeFilename = path.basename(f);
-
     // TOP LEVEL:
     // Parse the workspace into list of FilesWithLocations
     // Return 1 collapsible element per file
+    // followed by the Unlinked References section, if the active document is a note
     if (!element) {
-      return NoteParser.searchBacklinksFor(activeFilename).then((locations) => {
-        let filesWithLocations = BacklinksTreeDataProvider.locationListToTree(locations);
-        return filesWithLocations.map((fwl) => BacklinkItem.fromFileWithLocations(fwl));
+      let activeUri = vscode.Uri.file(f);
+      return NoteParser.searchBacklinksFor(f).then(async (locations) => {
+        let filesWithLocations = await this.filesWithLocations(locations);
+        let items = filesWithLocations.map((fwl) => BacklinkItem.fromFileWithLocations(fwl));
+        if (NoteWorkspace.isNoteFile(activeUri)) {
+          items.push(BacklinkItem.unlinkedReferences(activeUri.fsPath));
+        }
+        return items.map((item) => this._restoreExpansion(item));
+      });
+      // Unlinked References are only searched for once the section is expanded,
+      // since that has to read every note
+    } else if (element.mentionOf && !element.locations && !element.location) {
+      let mentionOf = element.mentionOf;
+      return NoteParser.searchUnlinkedMentionsFor(mentionOf).then(async (locations) => {
+        let filesWithLocations = await this.filesWithLocations(locations);
+        return filesWithLocations.map((fwl) =>
+          this._restoreExpansion(BacklinkItem.fromFileWithLocations(fwl, mentionOf))
+        );
       });
       // Given the collapsible elements,
       // return the children, 1 for each location within the file
     } else if (element && element.locations) {
-      return Promise.resolve(element.locations.map((l) => BacklinkItem.fromLocation(l)));
+      let mentionOf = element.mentionOf;
+      return Promise.resolve(element.locations.map((l) => BacklinkItem.fromLocation(l, mentionOf)));
     } else {
       return Promise.resolve([]);
     }
   }
+
+  // the command for an Unlinked References item:
+  // replace the plain text mention with a [[wiki-link]] to the note it mentions
+  static async linkMention(item: BacklinkItem) {
+    let location = item.location;
+    if (!location || !item.mentionOf) {
+      return;
+    }
+    let document = await vscode.workspace.openTextDocument(location.uri);
+    let mention = document.getText(location.range);
+    // the document may have been edited since the mention was found
+    let names = (await NoteParser.readNote(item.mentionOf)).mentionNames();
+    let normalize = (n: string) => n.toLowerCase().replace(/\s+/g, ' ');
+    if (!names.some((n) => normalize(n) == normalize(mention))) {
+      vscode.window.showWarningMessage(`'${mention}' is no longer a mention of the note`);
+      return;
+    }
+    let edit = new vscode.WorkspaceEdit();
+    let link = NoteWorkspace.wikiLinkForMention(mention, location.uri.fsPath, item.mentionOf);
+    edit.replace(location.uri, location.range, link);
+    return vscode.workspace.applyEdit(edit);
+  }
 }
 
 class BacklinkItem extends vscode.TreeItem {
   constructor(
     public readonly label: string,
-    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public collapsibleState: vscode.TreeItemCollapsibleState,
     public locations?: vscode.Location[],
-    private location?: vscode.Location
+    public readonly location?: vscode.Location,
+    // for the Unlinked References section and its items, the fsPath of the note mentioned
+    public readonly mentionOf?: string
   ) {
     super(label, collapsibleState);
+    if (mentionOf && location) {
+      this.contextValue = 'unlinkedMention';
+    }
+  }
+
+  // the line a location is on, from the cached Note
+  static lineAt(location: vscode.Location): string {
+    let note = NoteParser._notes[location.uri.fsPath];
+    return (note ? note.lines()[location.range.start.line] : '') || '';
+  }
+
+  // the line, but on a long line, starting a few words before `character`
+  static snippet(line: string, character: number): string {
+    let start = character > 20 ? line.lastIndexOf(' ', character - 12) + 1 : 0;
+    return `${start > 0 ? '…' : ''}${line.slice(start).trim()}`;
   }
 
   // return the 1 collapsible Item for each file
   // store the locations within that file to the .locations attribute
-  static fromFileWithLocations(fwl: FileWithLocations): BacklinkItem {
+  static fromFileWithLocations(fwl: FileWithLocations, mentionOf?: string): BacklinkItem {
     let label = fwl.file;
     let cs = vscode.TreeItemCollapsibleState.Expanded;
-    return new BacklinkItem(label, cs, fwl.locations, undefined);
+    let item = new BacklinkItem(label, cs, fwl.locations, undefined, mentionOf);
+    let fsPath = fwl.locations[0].uri.fsPath;
+    item.id = `${mentionOf ? 'unlinked' : 'linked'}:${fsPath}`;
+    let n = fwl.locations.length;
+    item.description = `${n} ${mentionOf ? 'Mentions' : 'References'}`;
+    item.tooltip = fsPath;
+    item.iconPath = new vscode.ThemeIcon('references');
+    return item;
   }
 
-  // items for the locations within files
-  static fromLocation(location: vscode.Location): BacklinkItem {
+  // items for the locations within files,
+  // with the paragraph or list item the location is in as the tooltip
+  static fromLocation(location: vscode.Location, mentionOf?: string): BacklinkItem {
     // location / range is 0-indexed, but editor lines are 1-indexed
     let lineNum = location.range.start.line + 1;
     let label = `${lineNum}:`; // path.basename(location.uri.fsPath);
     let cs = vscode.TreeItemCollapsibleState.None;
-    return new BacklinkItem(label, cs, undefined, location);
+    let item = new BacklinkItem(label, cs, undefined, location, mentionOf);
+    let start = location.range.start;
+    let section = mentionOf ? 'unlinked' : 'linked';
+    item.id = `${section}:${location.uri.fsPath}:${start.line}:${start.character}`;
+    item.description = BacklinkItem.snippet(BacklinkItem.lineAt(location), start.character);
+    let note = NoteParser._notes[location.uri.fsPath];
+    let paragraph = note ? note.paragraphAt(start.line) : '';
+    // rendered as Markdown, like the note itself (untrusted, so no command links)
+    item.tooltip = new vscode.MarkdownString(paragraph || BacklinkItem.lineAt(location));
+    return item;
+  }
+
+  // the (collapsed) section for the plain text mentions of the note at `fsPath`
+  static unlinkedReferences(fsPath: string): BacklinkItem {
+    let cs = vscode.TreeItemCollapsibleState.Collapsed;
+    let item = new BacklinkItem('Unlinked References', cs, undefined, undefined, fsPath);
+    item.id = 'unlinked';
+    item.iconPath = new vscode.ThemeIcon('search');
+    return item;
   }
 
   get command(): vscode.Command | undefined {
@@ -151,32 +337,4 @@ class BacklinkItem extends vscode.TreeItem {
       };
     }
   }
-
-  get tooltip(): string {
-    return this.description;
-  }
-
-  get description(): string {
-    let d = ``;
-    if (this.location) {
-      let lines = (fs.readFileSync(this.location?.uri.fsPath) || '').toString().split(/\r?\n/);
-      let line = lines[this.location?.range.start.line];
-      // Look back 12 chars before the start of the reference.
-      // There is almost certainly a more elegant way to do this.
-      let s = this.location?.range.start.character - 12;
-      if (s < 20) {
-        s = 0;
-      }
-      return line.substr(s);
-    } else if (this.locations) {
-      d = `${this.locations?.length} References`;
-    }
-    return d;
-  }
-
-  get iconPath(): vscode.ThemeIcon | undefined {
-    // to leave more room for the ref text,
-    // don't use an icon for each line
-    return this.location ? undefined : new vscode.ThemeIcon('references');
-  }
 }
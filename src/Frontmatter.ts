@@ -0,0 +1,152 @@
+/*
+`Frontmatter` is the YAML block at the very top of a note, eg:
+
+---
+title: The Heat Is On
+aliases: [heat, The Heat]
+tags:
+  - music
+  - 80s
+---
+
+We only need a handful of keys from it, so rather than pulling in a full YAML parser,
+this understands the subset of YAML that frontmatter is (almost) always written in:
+top level `key: value` scalars, `[inline, lists]` and `- block` lists.
+
+*/
+export type Frontmatter = {
+  title: string | undefined;
+  aliases: Array<string>;
+  // without the leading #
+  tags: Array<string>;
+  // every top level key, as a string or list of strings
+  fields: Record<string, string | Array<string>>;
+  // the (0-indexed) line of the closing `---`, ie, the body of the note starts on the next line
+  endLine: number;
+};
+
+// a tag in the frontmatter `tags`, and where it is written,
+// eg, so that renaming a #tag can rewrite it
+export type FrontmatterTag = {
+  // without the leading #
+  tag: string;
+  // the (0-indexed) line, and the characters of the tag on it (not including any leading #)
+  line: number;
+  start: number;
+  end: number;
+};
+
+const unquote = (value: string): string => {
+  let v = value.trim();
+  let m = v.match(/^"(.*)"$/) || v.match(/^'(.*)'$/);
+  return m ? m[1] : v;
+};
+
+// parse a scalar or an [inline, list], dropping any trailing # comment
+const parseValue = (raw: string): string | Array<string> => {
+  let v = raw.trim();
+  if (!v.match(/^["']/)) {
+    v = v.replace(/(^|\s)#\s.*$/, '').trim();
+  }
+  let list = v.match(/^\[(.*)\]$/);
+  if (list) {
+    return list[1]
+      .split(',')
+      .map(unquote)
+      .filter((item) => item != '');
+  }
+  return unquote(v);
+};
+
+const asList = (value: string | Array<string> | undefined): Array<string> => {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+};
+
+// Returns undefined when the note does not start with a `---` frontmatter block.
+export const parseFrontmatter = (data: string): Frontmatter | undefined => {
+  let lines = data.split(/\r?\n/);
+  if (lines[0].trim() != '---') {
+    return;
+  }
+  let endLine = lines.findIndex((line, i) => i > 0 && line.match(/^(---|\.\.\.)\s*$/));
+  if (endLine == -1) {
+    return;
+  }
+
+  let fields: Record<string, string | Array<string>> = {};
+  let key: string | undefined;
+  lines.slice(1, endLine).map((line) => {
+    let item = line.match(/^\s+-\s+(.*)$/) || line.match(/^-\s+(.*)$/);
+    if (item && key) {
+      let value = fields[key];
+      fields[key] = asList(value == '' ? undefined : value).concat([unquote(item[1])]);
+      return;
+    }
+    let kv = line.match(/^([\w\-]+):(.*)$/);
+    if (kv) {
+      key = kv[1];
+      fields[key] = parseValue(kv[2]);
+    }
+  });
+
+  let title = fields['title'];
+  // tags can also be written as a single string, eg, `tags: music, 80s` or `tags: music 80s`
+  let tags = asList(fields['tags'] || fields['tag'])
+    .map((t) => t.split(/[,\s]+/))
+    .reduce((all, t) => all.concat(t), [])
+    .map((t) => t.replace(/^\#/, ''))
+    .filter((t) => t != '');
+  return {
+    title: typeof title == 'string' && title != '' ? title : undefined,
+    aliases: asList(fields['aliases'] || fields['alias']).filter((a) => a != ''),
+    tags: tags,
+    fields: fields,
+    endLine: endLine,
+  };
+};
+
+// the tags in the frontmatter `tags` (or `tag`), in any of the forms parseFrontmatter reads
+export const frontmatterTags = (data: string): Array<FrontmatterTag> => {
+  let frontmatter = parseFrontmatter(data);
+  if (!frontmatter) {
+    return [];
+  }
+  let tagsKey = frontmatter.fields['tags'] ? 'tags' : 'tag';
+  let tags: Array<FrontmatterTag> = [];
+  // the tags in `line`, from the character `from` on, up to any trailing # comment
+  let addTags = (line: string, lineNum: number, from: number) => {
+    let comment = line.slice(from).match(/(^|\s)#\s/);
+    let value = line.slice(0, comment ? from + (comment.index || 0) : line.length);
+    let rx = /#?([^\s,\[\]"'#]+)/g;
+    rx.lastIndex = from;
+    let m;
+    while ((m = rx.exec(value))) {
+      let start = m.index + m[0].length - m[1].length;
+      tags.push({ tag: m[1], line: lineNum, start: start, end: start + m[1].length });
+    }
+  };
+  let key: string | undefined;
+  data
+    .split(/\r?\n/)
+    .slice(1, frontmatter.endLine)
+    .map((line, i) => {
+      let item = line.match(/^\s*-\s+/);
+      if (item && key) {
+        if (key == tagsKey) {
+          addTags(line, i + 1, item[0].length);
+        }
+        return;
+      }
+      let kv = line.match(/^([\w\-]+):/);
+      if (kv) {
+        key = kv[1];
+        if (key == tagsKey) {
+          addTags(line, i + 1, kv[0].length);
+        }
+      }
+    });
+  return tags;
+};
@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import { basename } from 'path';
+import { NoteWorkspace } from './NoteWorkspace';
+import { NoteParser } from './NoteParser';
+import { NoteDiagnostics, NoteDiagnosticCode } from './NoteDiagnostics';
+import { NoteChange, NoteWatcher } from './NoteWatcher';
+import { MarkdownDefinitionProvider } from './MarkdownDefinitionProvider';
+import { Ref, RefType } from './Ref';
+import { editDistance } from './utils';
+
+// Quick Fixes for the NoteDiagnostics on [[wiki-links]] that do not resolve to any note:
+// 1. "Create note" for the missing note
+// 2. "Link to closest match", rewriting the link to the note with the most similar name
+export class MarkdownCodeActionProvider implements vscode.CodeActionProvider {
+  public async provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext,
+    token: vscode.CancellationToken
+  ) {
+    let actions: vscode.CodeAction[] = [];
+    let missing = context.diagnostics.filter(
+      (d) => d.source == NoteDiagnostics.SOURCE && d.code == NoteDiagnosticCode.MissingNote
+    );
+    if (missing.length == 0) {
+      return actions;
+    }
+    await NoteParser.ready();
+    let noteFsPaths = Object.keys(NoteParser._notes).filter((p) =>
+      NoteWorkspace.canLinkAcross(document.uri.fsPath, p)
+    );
+
+    missing.map((d) => {
+      let linkText = document.getText(d.range);
+      let target = NoteWorkspace.wikiLinkTarget(linkText);
+      let create = new vscode.CodeAction(
+        `Create note for [[${target}]]`,
+        vscode.CodeActionKind.QuickFix
+      );
+      create.diagnostics = [d];
+      create.command = {
+        command: 'vscodeMarkdownNotes.createMissingNote',
+        title: 'Create note',
+        arguments: [target],
+      };
+      actions.push(create);
+
+      let closest = MarkdownCodeActionProvider.closestNoteFsPath(linkText, noteFsPaths);
+      if (closest) {
+        let text = NoteWorkspace.wikiLinkTextForRename(linkText, document.uri.fsPath, closest);
+        let link = new vscode.CodeAction(
+          `Link to closest match [[${text}]]`,
+          vscode.CodeActionKind.QuickFix
+        );
+        link.diagnostics = [d];
+        link.edit = new vscode.WorkspaceEdit();
+        link.edit.replace(document.uri, d.range, `[[${text}]]`);
+        link.isPreferred = true;
+        actions.push(link);
+      }
+    });
+    return actions;
+  }
+
+  // the note whose (normalized) name has the smallest edit distance to the link text,
+  // or undefined if no note is even remotely close
+  static closestNoteFsPath(linkText: string, noteFsPaths: Array<string>): string | undefined {
+    let n = NoteWorkspace.normalizeNoteNameForFuzzyMatch(linkText);
+    let closest: string | undefined;
+    let closestDistance = n.length;
+    noteFsPaths.map((p) => {
+      let d = editDistance(n, NoteWorkspace.normalizeNoteNameForFuzzyMatch(basename(p)));
+      if (d < closestDistance) {
+        closest = p;
+        closestDistance = d;
+      }
+    });
+    return closest;
+  }
+
+  // command for the "Create note" Quick Fix
+  static async createMissingNote(linkText: string) {
+    const ref: Ref = {
+      type: RefType.WikiLink,
+      word: linkText,
+      hasExtension: !!linkText.match(NoteWorkspace.rxFileExtensions()),
+      range: undefined,
+    };
+    const path = await MarkdownDefinitionProvider.createMissingNote(ref);
+    if (path === undefined) {
+      return;
+    }
+    NoteWatcher.queue(path, NoteChange.Changed);
+    vscode.window.showTextDocument(vscode.Uri.file(path), { preview: false });
+  }
+}
@@ -1,9 +1,11 @@
 import * as vscode from 'vscode';
 import { Ref, RefType, getRefAt } from './Ref';
 import { NoteWorkspace } from './NoteWorkspace';
+import { NoteParser } from './NoteParser';
 import { basename, dirname, join, resolve } from 'path';
-import { existsSync, writeFileSync } from 'fs';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
 import { titleCaseFilename } from './utils';
+import { NoteTemplate } from './NoteTemplate';
 
 // Given a document and position, check whether the current word matches one of
 // this context: [[wiki-link]]
@@ -11,11 +13,16 @@ import { titleCaseFilename } from './utils';
 // If so, we look for a file in the current workspace named by the wiki link
 // If the file `wiki-link.md` exists, return the first line of that file as the
 // Definition for the word.
+// For a [[wiki-link#Heading]] or [[wiki-link#^block-id]], return the line with that
+// Heading or block-id instead.
 //
 // Optionally, when no existing note is found for the wiki-link
 // vscodeMarkdownNotes.createNoteOnGoToDefinitionWhenMissing = true
-// AND vscodeMarkdownNotes.workspaceFilenameConvention = 'uniqueFilenames'
-// THEN create the missing file at the workspace root.
+// THEN create the missing file:
+// - when workspaceFilenameConvention = 'uniqueFilenames', by default in the dir of the current
+//   document (see vscodeMarkdownNotes.missingNoteLocation)
+// - when workspaceFilenameConvention = 'relativePaths', at the path of the link,
+//   relative to the current document
 export class MarkdownDefinitionProvider implements vscode.DefinitionProvider {
   public async provideDefinition(
     document: vscode.TextDocument,
@@ -34,51 +41,82 @@ export class MarkdownDefinitionProvider implements vscode.DefinitionProvider {
       return [];
     }
 
-    // TODO: parameterize extensions. return if we don't have a filename and we require extensions
-    // const markdownFileRegex = /[\w\.\-\_\/\\]+\.(md|markdown)/i;
-    const selectedWord = ref.word;
-    // console.debug('selectedWord', selectedWord);
-    let files: Array<vscode.Uri> = [];
-    // selectedWord might be either:
+    let files = await MarkdownDefinitionProvider.filesForWikiLinkRef(ref, document);
+
+    // else, create the file
+    if (files.length == 0) {
+      const path = await MarkdownDefinitionProvider.createMissingNote(ref);
+      if (path !== undefined) {
+        files.push(vscode.Uri.file(path));
+      }
+    }
+
+    return Promise.all(
+      files.map(async (f) => {
+        const p = await MarkdownDefinitionProvider.positionForFragment(f, ref.fragment);
+        return new vscode.Location(f, p);
+      })
+    );
+  }
+
+  // For a [[note#Heading]] or [[note#^block-id]] wiki-link,
+  // the start of the line with the Heading or block-id,
+  // otherwise (or if the note has no such Heading or block-id), the top of the note.
+  static async positionForFragment(
+    file: vscode.Uri,
+    fragment: string | undefined
+  ): Promise<vscode.Position> {
+    let line: number | undefined;
+    if (fragment) {
+      try {
+        line = (await NoteParser.readNote(file.fsPath)).lineForFragment(fragment);
+      } catch (e) {
+        // eg, a newly created note that has not been written yet
+      }
+    }
+    return new vscode.Position(line || 0, 0);
+  }
+
+  // Find the note files a [[wiki-link]] Ref points to, without creating any missing notes.
+  // Relative paths are resolved against the dir of `relativeToDocument`.
+  static async filesForWikiLinkRef(
+    ref: Ref,
+    relativeToDocument: vscode.TextDocument
+  ): Promise<Array<vscode.Uri>> {
+    // a [[#Heading]] wiki-link is to the note it is in
+    if (!ref.word && ref.fragment !== undefined) {
+      return [relativeToDocument.uri];
+    }
+    // ref.word might be either:
     // a basename for a unique file in the workspace
     // or, a relative path to a file
-    // Since, selectedWord is just a string of text from a document,
+    // Since, ref.word is just a string of text from a document,
     // there is no guarantee useUniqueFilenames will tell us
-    // it is not a relative path.
-    // However, only check for basenames in the entire project if:
-    if (NoteWorkspace.useUniqueFilenames()) {
-      // there should be exactly 1 file with name = selectedWord
-      files = (await NoteWorkspace.noteFiles()).filter((f) => {
-        // files = (await vscode.workspace.findFiles('**/*')).filter((f) => {
-        return NoteWorkspace.noteNamesFuzzyMatch(f.fsPath, ref.word);
-      });
-    }
-    // If we did not find any files in the workspace,
+    // it is not a relative path, so resolve it the same way as every other link
+    // (see NoteWorkspace.noteFsPathsForWikiLink), against the names in the index.
+    await NoteParser.ready();
+    const fromFsPath = relativeToDocument.uri.fsPath;
+    let files = NoteParser.resolveWikiLink(ref.word, fromFsPath).map((p) => vscode.Uri.file(p));
+    // If no note in the index matches (eg, it was created a moment ago),
     // see if a file exists at the relative path:
     if (files.length == 0) {
-      const relativePath = selectedWord;
-      let fromDir = dirname(document.uri.fsPath.toString());
+      const relativePath = ref.word;
+      let fromDir = dirname(relativeToDocument.uri.fsPath.toString());
       const absPath = resolve(fromDir, relativePath);
-      if (existsSync(absPath)) {
-        const f = vscode.Uri.file(absPath);
+      // or at the path createMissingNote would create it at, eg, `new idea` => `new-idea.md`
+      const slugFilename = NoteWorkspace.noteFileNameForLink(basename(absPath));
+      const slugPath = join(dirname(absPath), slugFilename);
+      const existing = [absPath, slugPath].find((p) => existsSync(p));
+      if (existing && NoteWorkspace.canLinkAcross(fromFsPath, existing)) {
+        const f = vscode.Uri.file(existing);
         files.push(f);
       }
     }
-
-    // else, create the file
-    if (files.length == 0) {
-      const path = MarkdownDefinitionProvider.createMissingNote(ref);
-      if (path !== undefined) {
-        files.push(vscode.Uri.file(path));
-      }
-    }
-
-    const p = new vscode.Position(0, 0);
-    return files.map((f) => new vscode.Location(f, p));
+    return files;
   }
 
   // FIXME: move all of the stuff that deals with create the filename to NoteWorkspace
-  static createMissingNote = (ref: Ref): string | undefined => {
+  static createMissingNote = async (ref: Ref): Promise<string | undefined> => {
     // don't create new files if ref is a Tag
     if (ref.type != RefType.WikiLink) {
       return;
@@ -88,18 +126,53 @@ export class MarkdownDefinitionProvider implements vscode.DefinitionProvider {
     }
     const filename = vscode.window.activeTextEditor?.document.fileName;
     if (filename !== undefined) {
-      if (!NoteWorkspace.useUniqueFilenames()) {
-        vscode.window.showWarningMessage(
-          `createNoteOnGoToDefinitionWhenMissing only works when vscodeMarkdownNotes.workspaceFilenameConvention = 'uniqueFilenames'`
+      const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filename));
+      const folderFsPath = folder ? folder.uri.fsPath : dirname(filename);
+      let path: string | undefined;
+      let title: string;
+      if (NoteWorkspace.useUniqueFilenames(filename)) {
+        // by default, create new note in same dir as the current document
+        const location = NoteWorkspace.cfg(filename).missingNoteLocation;
+        const dir = await NoteWorkspace.newNoteDir(location, folderFsPath, filename);
+        if (dir === undefined) {
+          return;
+        }
+        let mdFilename = NoteWorkspace.noteFileNameFor(ref.word, dir);
+        path = join(dir, mdFilename);
+        // a note named by an id is only linked to by its title,
+        // so that has to be the link, rather than the Title Case version of it
+        title = NoteWorkspace.isNoteIdFilename(mdFilename)
+          ? NoteWorkspace.stripExtension(ref.word)
+          : titleCaseFilename(ref.word, NoteWorkspace.rxFileExtensions());
+      } else {
+        // in relativePaths mode, the link is the path of the note
+        path = NoteWorkspace.noteFsPathForRelativeLink(ref.word, filename, folderFsPath);
+        if (path === undefined) {
+          vscode.window.showWarningMessage(
+            `Not creating a note for [[${ref.word}]], because it is outside of the workspace folder`
+          );
+          return;
+        }
+        title = titleCaseFilename(
+          ref.word.split(/[\\/]/).pop() || '',
+          NoteWorkspace.rxFileExtensions()
         );
-        return;
       }
-      let mdFilename = NoteWorkspace.noteFileNameFromTitle(ref.word);
-      // by default, create new note in same dir as the current document
-      // TODO: could convert this to an option (to, eg, create in workspace root)
-      const path = join(dirname(filename), mdFilename);
-      const title = titleCaseFilename(ref.word);
-      writeFileSync(path, `# ${title}\n\n`);
+      if (existsSync(path)) {
+        return path;
+      }
+      const template = NoteTemplate.read(
+        folderFsPath,
+        NoteTemplate.templateNameFor(path, folderFsPath)
+      );
+      const contents = NoteTemplate.render(template, {
+        title: title,
+        date: new Date(),
+        fsPath: path,
+        sourceFsPath: filename,
+      });
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, NoteTemplate.cursor(contents).text);
       return path;
     }
   };
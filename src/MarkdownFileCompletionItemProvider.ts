@@ -1,14 +1,16 @@
 import * as vscode from 'vscode';
-import { RefType, getRefAt } from './Ref';
+import { Ref, RefType, getRefAt } from './Ref';
 import { NoteWorkspace } from './NoteWorkspace';
 import { NoteParser, Note } from './NoteParser';
+import { MarkdownDefinitionProvider } from './MarkdownDefinitionProvider';
 
 // Given a document and position, check whether the current word matches one of
 // these 2 contexts:
 // 1. [[wiki-links]]
-// 2. #tags
+// 2. #tags (nested #project/alpha tags 1 level at a time)
 //
 // If so, provide appropriate completion items from the current workspace
+// (including the Headings of a note after [[note#)
 export class MarkdownFileCompletionItemProvider implements vscode.CompletionItemProvider {
   public async provideCompletionItems(
     document: vscode.TextDocument,
@@ -17,34 +19,71 @@ export class MarkdownFileCompletionItemProvider implements vscode.CompletionItem
     context: vscode.CompletionContext
   ) {
     const ref = getRefAt(document, position);
-    let items = [];
+    let items: vscode.CompletionItem[] = [];
     switch (ref.type) {
       case RefType.Null:
         return [];
         break;
       case RefType.Tag:
-        items = (await NoteParser.distinctTags()).map((t) => {
-          let kind = vscode.CompletionItemKind.File;
-          let label = `${t}`; // cast to a string
-          let item = new vscode.CompletionItem(label, kind);
-          if (ref && ref.range) {
+        let typed = ref.range ? document.getText(ref.range) : `#${ref.word}`;
+        items = MarkdownFileCompletionItemProvider.tagCompletionItems(
+          typed,
+          await NoteParser.distinctTags()
+        );
+        if (ref && ref.range) {
+          items.map((item) => {
             item.range = ref.range;
-          }
-          return item;
-        });
+          });
+        }
         return items;
         break;
       case RefType.WikiLink:
-        let files = await NoteWorkspace.noteFiles();
-        items = files.map((f) => {
+        if (ref.range && !ref.range.contains(position)) {
+          // completions for the Heading after [[note#
+          if (ref.fragment !== undefined) {
+            let fragmentRange = MarkdownFileCompletionItemProvider.fragmentRange(document, ref);
+            if (fragmentRange.contains(position)) {
+              return MarkdownFileCompletionItemProvider.fragmentCompletionItems(
+                document,
+                ref,
+                fragmentRange
+              );
+            }
+          }
+          // no completions while typing the |label of a [[target|label]] wiki-link
+          return [];
+        }
+        // every note in the index, rather than finding the files again
+        await NoteParser.ready();
+        let files = Object.keys(NoteParser._notes)
+          .filter((p) => NoteWorkspace.canLinkAcross(document.uri.fsPath, p))
+          .map((p) => vscode.Uri.file(p));
+        files.map((f) => {
           let kind = vscode.CompletionItemKind.File;
           let label = NoteWorkspace.wikiLinkCompletionForConvention(f, document);
-          let item = new vscode.CompletionItem(label, kind);
-          if (ref && ref.range) {
-            item.range = ref.range;
+          let note = NoteParser._notes[f.fsPath];
+          let title = note && note.frontmatter ? note.frontmatter.title : undefined;
+          // when the note has a frontmatter title, show that,
+          // but still insert the link in the noteCompletionConvention
+          let item = new vscode.CompletionItem(title || label, kind);
+          if (title) {
+            item.insertText = label;
+            item.filterText = `${label} ${title}`;
+            item.detail = label;
           }
-          return item;
+          items.push(item);
+          // frontmatter aliases are also valid link targets
+          (note ? note.aliases() : []).map((alias) => {
+            let aliasItem = new vscode.CompletionItem(alias, vscode.CompletionItemKind.Reference);
+            aliasItem.detail = `alias of ${label}`;
+            items.push(aliasItem);
+          });
         });
+        if (ref && ref.range) {
+          items.map((item) => {
+            item.range = ref.range;
+          });
+        }
         return items;
         break;
       default:
@@ -52,4 +91,68 @@ export class MarkdownFileCompletionItemProvider implements vscode.CompletionItem
         break;
     }
   }
+
+  // Nested tags are completed 1 level at a time:
+  // after `#pro`, complete `#project` and `#project/` (if there are tags nested under it),
+  // and after `#project/`, complete `#project/alpha`, `#project/alpha/`, etc.
+  static tagCompletionItems(typed: string, tags: Array<string>): vscode.CompletionItem[] {
+    let slash = typed.lastIndexOf('/');
+    let parent = slash == -1 ? undefined : typed.slice(0, slash);
+    let items: vscode.CompletionItem[] = [];
+    NoteWorkspace.childTags(parent, tags).map((t) => {
+      if (tags.includes(t)) {
+        items.push(new vscode.CompletionItem(t, vscode.CompletionItemKind.File));
+      }
+      if (NoteWorkspace.childTags(t, tags).length > 0) {
+        let item = new vscode.CompletionItem(`${t}/`, vscode.CompletionItemKind.Folder);
+        // go straight on to completing the next level
+        item.command = { command: 'editor.action.triggerSuggest', title: 'Complete nested tag' };
+        items.push(item);
+      }
+    });
+    return items;
+  }
+
+  // the range of the text after the # in a [[note#Heading]] wiki-link,
+  // up to the |label or closing ]]
+  static fragmentRange(document: vscode.TextDocument, ref: Ref): vscode.Range {
+    // ref.range ends just before the #
+    let s = (ref.range as vscode.Range).end.translate(0, 1);
+    let rest = document.lineAt(s.line).text.slice(s.character);
+    let len = rest.search(/[\|\]]/);
+    return new vscode.Range(s, s.translate(0, len == -1 ? rest.length : len));
+  }
+
+  // the Headings (or ^block-ids, after [[note#^) in the note the wiki-link points to
+  static async fragmentCompletionItems(
+    document: vscode.TextDocument,
+    ref: Ref,
+    range: vscode.Range
+  ): Promise<vscode.CompletionItem[]> {
+    let files = await MarkdownDefinitionProvider.filesForWikiLinkRef(ref, document);
+    if (files.length == 0) {
+      return [];
+    }
+    let note = await NoteParser.readNote(files[0].fsPath);
+    let items: vscode.CompletionItem[];
+    if ((ref.fragment || '').startsWith('^')) {
+      items = note.blockIds().map((b) => {
+        let item = new vscode.CompletionItem(`^${b.id}`, vscode.CompletionItemKind.Reference);
+        item.detail = note.lines()[b.line];
+        return item;
+      });
+    } else {
+      items = note.headings().map((h) => {
+        let item = new vscode.CompletionItem(h.text, vscode.CompletionItemKind.Reference);
+        item.detail = `${'#'.repeat(h.level)} ${h.text}`;
+        // keep the headings in the order they appear in the note
+        item.sortText = `${h.line}`.padStart(8, '0');
+        return item;
+      });
+    }
+    items.map((item) => {
+      item.range = range;
+    });
+    return items;
+  }
 }
@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import { basename } from 'path';
+import { Ref, RefType, getRefAt } from './Ref';
+import { NoteWorkspace } from './NoteWorkspace';
+import { NoteParser } from './NoteParser';
+import { MarkdownDefinitionProvider } from './MarkdownDefinitionProvider';
+import { titleCaseFilename } from './utils';
+import { parseFrontmatter } from './Frontmatter';
+
+// Given a document and position, check whether the current word matches one of
+// these 2 contexts:
+// 1. [[wiki-links]]
+// 2. #tags
+//
+// For a [[wiki-link]], preview the title and first few lines of the linked note,
+// resolving the link the same way Go to Definition does.
+//
+// For a #tag, summarize how many notes use the tag and which use it most.
+export class MarkdownHoverProvider implements vscode.HoverProvider {
+  static TOP_TAG_NOTES = 5;
+
+  public async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ) {
+    const ref = getRefAt(document, position);
+    if (ref.type == RefType.WikiLink) {
+      const files = await MarkdownDefinitionProvider.filesForWikiLinkRef(ref, document);
+      if (files.length == 0) {
+        return new vscode.Hover(`No note found for [[${ref.word}]]`, ref.range);
+      }
+      const previews = await Promise.all(
+        files.map(async (f) => {
+          const note = await NoteParser.readNote(f.fsPath);
+          return MarkdownHoverProvider.notePreview(
+            note.data || '',
+            note.fsPath,
+            NoteWorkspace.hoverPreviewLines()
+          );
+        })
+      );
+      return new vscode.Hover(previews.map((p) => new vscode.MarkdownString(p)), ref.range);
+    } else if (ref.type == RefType.Tag) {
+      await NoteParser.ready();
+      const summary = MarkdownHoverProvider.tagSummary(
+        `#${ref.word}`,
+        MarkdownHoverProvider.tagCounts(ref),
+        MarkdownHoverProvider.TOP_TAG_NOTES
+      );
+      return new vscode.Hover(new vscode.MarkdownString(summary), ref.range);
+    }
+  }
+
+  // Markdown for the title of the note, followed by the first `numLines` lines
+  // of the note (skipping the frontmatter, and not repeating the title
+  // if that is where it came from)
+  static notePreview(data: string, fsPath: string, numLines: number): string {
+    let lines = data.split(/\r?\n/);
+    let title = titleCaseFilename(basename(fsPath), NoteWorkspace.rxFileExtensions());
+    let frontmatter = parseFrontmatter(data);
+    if (frontmatter) {
+      lines = lines.slice(frontmatter.endLine + 1);
+      while (lines.length > 0 && lines[0].trim() == '') {
+        lines = lines.slice(1);
+      }
+    }
+    let h1 = (lines[0] || '').match(/^\#[ \t]+(.+?)[ \t#]*$/);
+    if (h1) {
+      title = h1[1];
+      lines = lines.slice(1);
+    }
+    if (frontmatter && frontmatter.title) {
+      title = frontmatter.title;
+    }
+    // skip the blank lines between the title and the body
+    while (lines.length > 0 && lines[0].trim() == '') {
+      lines = lines.slice(1);
+    }
+    let preview = `**${title}**`;
+    if (numLines > 0 && lines.length > 0) {
+      let body = lines.slice(0, numLines).join('\n');
+      if (lines.length > numLines) {
+        body += '\n\n…';
+      }
+      preview += `\n\n---\n\n${body}`;
+    }
+    return preview;
+  }
+
+  // the number of times the #tag in `ref` occurs in each note that uses it, from the index:
+  // once for each inline #tag, and once if it is in the frontmatter `tags`
+  static tagCounts(ref: Ref): Record<string, number> {
+    let counts: Record<string, number> = {};
+    NoteParser._index.notesForTag(`#${ref.word}`).map((fsPath) => {
+      let note = NoteParser._notes[fsPath];
+      let frontmatter = note && note.frontmatter;
+      counts[fsPath] = frontmatter && frontmatter.tags.includes(ref.word) ? 1 : 0;
+    });
+    NoteParser._search(ref).map((ir) => {
+      counts[ir.fsPath] = (counts[ir.fsPath] || 0) + 1;
+    });
+    return counts;
+  }
+
+  // Markdown summary of a #tag, given the number of times it occurs in each note
+  static tagSummary(tag: string, countsByFsPath: Record<string, number>, top: number): string {
+    let fsPaths = Object.keys(countsByFsPath);
+    let n = fsPaths.length;
+    let summary = `**${tag}** is used in ${n} ${n == 1 ? 'note' : 'notes'}`;
+    fsPaths.sort((a, b) => {
+      let d = countsByFsPath[b] - countsByFsPath[a];
+      return d != 0 ? d : basename(a).localeCompare(basename(b));
+    });
+    let items = fsPaths.slice(0, top).map((p) => `- ${basename(p)} (${countsByFsPath[p]})`);
+    if (items.length > 0) {
+      summary += `\n\n${items.join('\n')}`;
+    }
+    if (n > top) {
+      summary += `\n- …and ${n - top} more`;
+    }
+    return summary;
+  }
+}
@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import { existsSync, readFileSync } from 'fs';
+import { dirname, relative } from 'path';
+import { Note, NoteParser } from './NoteParser';
+import { NoteWorkspace } from './NoteWorkspace';
+
+// The parts of markdown-it that the plugin uses.
+// markdown-it comes with VS Code's built-in Markdown preview, so it is not a dependency.
+type MarkdownItToken = { content: string };
+type MarkdownItInlineState = {
+  src: string;
+  pos: number;
+  posMax: number;
+  push(type: string, tag: string, nesting: number): MarkdownItToken;
+};
+type MarkdownItRenderRule = (
+  tokens: Array<MarkdownItToken>,
+  idx: number,
+  options: unknown,
+  env: PreviewEnv
+) => string;
+export type MarkdownIt = {
+  inline: {
+    ruler: {
+      before(
+        beforeName: string,
+        ruleName: string,
+        rule: (state: MarkdownItInlineState, silent: boolean) => boolean
+      ): void;
+    };
+  };
+  renderer: { rules: { [type: string]: MarkdownItRenderRule } };
+  render(src: string, env?: PreviewEnv): string;
+};
+
+// The env passed to markdown-it while rendering.
+// VS Code sets `currentDocument` to the uri of the document being previewed,
+// and embedded notes are rendered with `markdownNotesEmbeds` set to the notes
+// (and #fragments) being embedded, innermost last, so that cycles can be detected.
+type PreviewEnv = {
+  currentDocument?: vscode.Uri;
+  markdownNotesEmbeds?: Array<string>;
+};
+
+const escapeHtml = (s: string): string =>
+  s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// A markdown-it plugin for VS Code's built-in Markdown preview (see `extendMarkdownIt` in
+// extension.ts) that renders [[wiki-links]] as links to the notes they resolve to,
+// and ![[embeds]] as the (rendered) notes, headings or blocks they point at.
+export class MarkdownPreview {
+  // how deep embeds are rendered in embeds, even without a cycle
+  static MAX_EMBED_DEPTH = 5;
+
+  static extendMarkdownIt(md: MarkdownIt): MarkdownIt {
+    md.inline.ruler.before('link', 'markdown_notes_wiki_link', (state, silent) => {
+      // the rule runs at every position, so only slice the text at a `[` or `!`
+      let first = state.src.charCodeAt(state.pos);
+      if (first != 0x5b /* [ */ && first != 0x21 /* ! */) {
+        return false;
+      }
+      let match = state.src.slice(state.pos, state.posMax).match(/^!?\[\[([^\]]+)\]\]/);
+      if (!match) {
+        return false;
+      }
+      if (!silent) {
+        let type = match[0].startsWith('!') ? 'markdown_notes_embed' : 'markdown_notes_wiki_link';
+        state.push(type, '', 0).content = match[1];
+      }
+      state.pos += match[0].length;
+      return true;
+    });
+    md.renderer.rules.markdown_notes_wiki_link = (tokens, idx, options, env) =>
+      MarkdownPreview.renderWikiLink(tokens[idx].content, env);
+    md.renderer.rules.markdown_notes_embed = (tokens, idx, options, env) =>
+      MarkdownPreview.renderEmbed(md, tokens[idx].content, env);
+    return md;
+  }
+
+  // Links are resolved against the NoteParser cache, so previews rendered before it was
+  // ready show every link as missing: render them again once it is (or has been rebuilt).
+  static refresh() {
+    vscode.commands.executeCommand('markdown.preview.refresh');
+  }
+
+  // the document being previewed
+  static previewFsPath(env: PreviewEnv): string | undefined {
+    return (
+      env.currentDocument?.fsPath || vscode.window.activeTextEditor?.document.uri.fsPath
+    );
+  }
+
+  // the note that the link being rendered is in: the innermost embedded note,
+  // or else the document being previewed
+  static fromFsPath(env: PreviewEnv): string | undefined {
+    let embeds = env.markdownNotesEmbeds || [];
+    return embeds.length > 0
+      ? embeds[embeds.length - 1].split('#')[0]
+      : MarkdownPreview.previewFsPath(env);
+  }
+
+  // the note that `linkText` resolves to, or undefined if it does not exist
+  static resolve(linkText: string, env: PreviewEnv): string | undefined {
+    let fromFsPath = MarkdownPreview.fromFsPath(env);
+    return fromFsPath ? NoteParser.resolveWikiLink(linkText, fromFsPath)[0] : undefined;
+  }
+
+  static renderWikiLink(linkText: string, env: PreviewEnv): string {
+    let { target, fragment, label } = NoteWorkspace.wikiLinkParts(linkText);
+    let text = escapeHtml(label || linkText.split('|')[0]);
+    let fsPath = MarkdownPreview.resolve(linkText, env);
+    let previewFsPath = MarkdownPreview.previewFsPath(env);
+    if (!fsPath || !previewFsPath) {
+      return `<span class="markdown-notes-wiki-link missing" title="${escapeHtml(
+        target
+      )} does not exist">${text}</span>`;
+    }
+    // the link is in the document being previewed, even when it is in an embedded note
+    let href = relative(dirname(previewFsPath), fsPath).split('\\').join('/');
+    if (fragment && !fragment.startsWith('^')) {
+      href = `${href}#${NoteWorkspace.normalizeHeadingForFuzzyMatch(fragment)}`;
+    }
+    return `<a class="markdown-notes-wiki-link" href="${escapeHtml(encodeURI(href))}">${text}</a>`;
+  }
+
+  static renderEmbed(md: MarkdownIt, linkText: string, env: PreviewEnv): string {
+    let { fragment } = NoteWorkspace.wikiLinkParts(linkText);
+    let fsPath = MarkdownPreview.resolve(linkText, env);
+    let notice = (message: string) =>
+      `<div class="markdown-notes-embed missing">${escapeHtml(message)}</div>`;
+    if (!fsPath) {
+      return notice(`![[${linkText}]]: the note does not exist`);
+    }
+    let key = fragment ? `${fsPath}#${fragment}` : fsPath;
+    let embeds = env.markdownNotesEmbeds || [];
+    let previewFsPath = MarkdownPreview.previewFsPath(env);
+    if (key == previewFsPath || embeds.includes(key)) {
+      return notice(`![[${linkText}]]: not embedded again, since it embeds itself`);
+    }
+    if (embeds.length >= MarkdownPreview.MAX_EMBED_DEPTH) {
+      return notice(`![[${linkText}]]: embeds are nested too deeply`);
+    }
+    let text = MarkdownPreview.readNote(fsPath).embedText(fragment);
+    if (text === undefined) {
+      return notice(`![[${linkText}]]: #${fragment} does not exist`);
+    }
+    let html = md.render(text, { ...env, markdownNotesEmbeds: embeds.concat([key]) });
+    return `<div class="markdown-notes-embed">${html}</div>`;
+  }
+
+  // the parsed note at `fsPath`, with the unsaved changes in its editor, if it is open.
+  // markdown-it renders synchronously, so unlike NoteParser.readNote, it reads the file sync.
+  static readNote(fsPath: string): Note {
+    let note = new Note(fsPath);
+    let document = vscode.workspace.textDocuments.find((d) => d.uri.fsPath == fsPath);
+    if (document) {
+      note.data = document.getText();
+    } else if (existsSync(fsPath)) {
+      note.data = readFileSync(fsPath).toString();
+    }
+    note.parseData(false);
+    return note;
+  }
+}
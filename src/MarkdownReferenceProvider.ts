@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { NoteParser } from './NoteParser';
+import { NoteWorkspace } from './NoteWorkspace';
 import { getRefAt } from './Ref';
 
 export class MarkdownReferenceProvider implements vscode.ReferenceProvider {
@@ -12,6 +13,6 @@ export class MarkdownReferenceProvider implements vscode.ReferenceProvider {
     // console.debug('MarkdownReferenceProvider.provideReferences');
     const ref = getRefAt(document, position);
     // debugRef(ref);
-    return NoteParser.search(ref);
+    return NoteParser.search(ref, NoteWorkspace.includeNestedTagsInSearch());
   }
 }
@@ -0,0 +1,283 @@
+import * as vscode from 'vscode';
+import { basename, dirname, join, resolve } from 'path';
+import { existsSync } from 'fs';
+import { Ref, RefType, getRefAt, isWikiLinkType } from './Ref';
+import { NoteWorkspace } from './NoteWorkspace';
+import { Note, NoteParser } from './NoteParser';
+import { MarkdownDefinitionProvider } from './MarkdownDefinitionProvider';
+import { NoteChange, NoteWatcher } from './NoteWatcher';
+import { FrontmatterTag, frontmatterTags } from './Frontmatter';
+
+// Given a document and position, check whether the current word matches one of
+// these 2 contexts:
+// 1. [[wiki-link]]
+// 2. #tag
+//
+// For a [[wiki-link]], rename the note file the wiki-link points to,
+// and rewrite every [[wiki-link]] in the workspace that points to that note,
+// in the same noteCompletionConvention each link was originally written in.
+//
+// For a #tag, rewrite every occurrence of the #tag in the workspace,
+// along with the tags nested under it, eg, #project/alpha when renaming #project,
+// both inline and in the frontmatter `tags`.
+//
+// Renaming a note file some other way (eg, from the Explorer) is handled by
+// `onDidRenameFiles`, which rewrites the wiki-links the same way.
+export class MarkdownRenameProvider implements vscode.RenameProvider {
+  // oldFsPath => newFsPath of the renames in the edits returned by provideRenameEdits,
+  // whose links are already rewritten, so that onDidRenameFiles can skip them
+  static _renames: Map<string, string> = new Map();
+
+  public async prepareRename(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ) {
+    const ref = getRefAt(document, position);
+    if (ref.type == RefType.Tag && ref.range) {
+      // the range of a Tag includes the leading #, but we only want to edit the word
+      const s = ref.range.start.translate(0, 1);
+      return { range: new vscode.Range(s, ref.range.end), placeholder: ref.word };
+    }
+    if (ref.type != RefType.WikiLink || !ref.range) {
+      throw new Error('Only [[wiki-links]] and #tags can be renamed.');
+    }
+    await MarkdownRenameProvider.noteFileForRename(document, position);
+    return { range: ref.range, placeholder: ref.word };
+  }
+
+  public async provideRenameEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    newName: string,
+    token: vscode.CancellationToken
+  ) {
+    const ref = getRefAt(document, position);
+    if (ref.type == RefType.Tag) {
+      return MarkdownRenameProvider.provideTagRenameEdits(ref, newName);
+    }
+    const oldUri = await MarkdownRenameProvider.noteFileForRename(document, position);
+    const newFsPath = MarkdownRenameProvider.newNotePathFor(newName, oldUri.fsPath, document);
+    if (newFsPath == oldUri.fsPath) {
+      return new vscode.WorkspaceEdit();
+    }
+    if (existsSync(newFsPath)) {
+      throw new Error(`Cannot rename note: ${basename(newFsPath)} already exists.`);
+    }
+
+    let edit = new vscode.WorkspaceEdit();
+    await MarkdownRenameProvider.addWikiLinkEdits(edit, oldUri.fsPath, newFsPath);
+    // NB: rename the file AFTER the text edits,
+    // since some of them may be in the note being renamed
+    edit.renameFile(oldUri, vscode.Uri.file(newFsPath));
+    MarkdownRenameProvider._renames.set(oldUri.fsPath, newFsPath);
+    return edit;
+  }
+
+  // rewrite every occurrence of the #tag in `ref` (and the tags nested under it) to `#newName`,
+  // after confirming with the user if that would merge it into a #tag that is already in use
+  static async provideTagRenameEdits(
+    ref: Ref,
+    newName: string
+  ): Promise<vscode.WorkspaceEdit | undefined> {
+    const newTag = MarkdownRenameProvider.tagForRename(newName);
+    const oldTag = `#${ref.word}`;
+    let edit = new vscode.WorkspaceEdit();
+    if (newTag == oldTag) {
+      return edit;
+    }
+    if ((await NoteParser.distinctTags()).includes(newTag)) {
+      const merge = 'Merge';
+      const choice = await vscode.window.showWarningMessage(
+        `${newTag} is already in use. Merge ${oldTag} into ${newTag}?`,
+        { modal: true },
+        merge
+      );
+      if (choice != merge) {
+        return;
+      }
+    }
+    await NoteParser.ready();
+    // the notes that use the tag (inline or in the frontmatter), and the open notes,
+    // whose edits the index may not have caught up with yet
+    let fsPaths: Set<string> = new Set();
+    NoteParser._index
+      .distinctTags()
+      .filter((tag) => NoteWorkspace.tagIsOrDescendsFrom(tag, oldTag))
+      .map((tag) => NoteParser._index.notesForTag(tag).map((fsPath) => fsPaths.add(fsPath)));
+    vscode.workspace.textDocuments
+      .filter((d) => NoteWorkspace.isNoteFile(d.uri))
+      .map((d) => fsPaths.add(d.uri.fsPath));
+    for (const fsPath of Array.from(fsPaths)) {
+      // the text in its editor if the note is open, or else the file
+      // (since a Note restored from the NoteIndexStore has no data for the frontmatter)
+      const open = vscode.workspace.textDocuments.some((d) => d.uri.fsPath == fsPath);
+      const note = open
+        ? MarkdownRenameProvider.currentNote(fsPath, NoteParser._notes[fsPath])
+        : await NoteParser.readNote(fsPath);
+      const uri = vscode.Uri.file(fsPath);
+      note.refCandidates
+        .filter(
+          (rc) =>
+            rc.refType == RefType.Tag && NoteWorkspace.tagIsOrDescendsFrom(rc.rawText, oldTag)
+        )
+        .map((rc) => {
+          const r = rc.range;
+          edit.replace(
+            uri,
+            new vscode.Range(r.start.line, r.start.character, r.end.line, r.end.character),
+            MarkdownRenameProvider.renamedTag(rc.rawText, oldTag, newTag)
+          );
+        });
+      MarkdownRenameProvider.frontmatterTagEdits(note.data || '', oldTag, newTag).map((e) => {
+        const r = new vscode.Range(e.tag.line, e.tag.start, e.tag.line, e.tag.end);
+        edit.replace(uri, r, e.newText);
+      });
+    }
+    return edit;
+  }
+
+  // the tags in the frontmatter of `data` that renaming oldTag to newTag rewrites,
+  // and what each one is rewritten to (without the leading #)
+  static frontmatterTagEdits(
+    data: string,
+    oldTag: string,
+    newTag: string
+  ): Array<{ tag: FrontmatterTag; newText: string }> {
+    return frontmatterTags(data)
+      .filter((t) => NoteWorkspace.tagIsOrDescendsFrom(`#${t.tag}`, oldTag))
+      .map((t) => ({
+        tag: t,
+        newText: MarkdownRenameProvider.renamedTag(`#${t.tag}`, oldTag, newTag).slice(1),
+      }));
+  }
+
+  // eg, renamedTag('#project/alpha', '#project', '#work') => '#work/alpha'
+  static renamedTag(tag: string, oldTag: string, newTag: string): string {
+    return `${newTag}${tag.slice(oldTag.length)}`;
+  }
+
+  // `newName` may be given with or without the leading #,
+  // return the full #tag or throw an Error if it is not a valid tag
+  static tagForRename(newName: string): string {
+    const tag = `#${newName.trim().replace(/^\#+/, '')}`;
+    if (!tag.match(NoteWorkspace.rxTagWithAnchors())) {
+      throw new Error(`Cannot rename tag: ${tag} is not a valid #tag.`);
+    }
+    return tag;
+  }
+
+  // the 1 note file the [[wiki-link]] at position points to,
+  // or throw an Error (which vscode shows to the user)
+  static async noteFileForRename(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.Uri> {
+    const ref = getRefAt(document, position);
+    // eg, not a [[#Heading]] in the same note
+    if (ref.type != RefType.WikiLink || !ref.word) {
+      throw new Error('Only [[wiki-links]] to notes can be renamed.');
+    }
+    const files = await MarkdownDefinitionProvider.filesForWikiLinkRef(ref, document);
+    if (files.length == 0) {
+      throw new Error(`No note found for [[${ref.word}]].`);
+    }
+    if (files.length > 1) {
+      const names = files.map((f) => basename(f.fsPath)).join(', ');
+      throw new Error(`[[${ref.word}]] matches more than 1 note: ${names}`);
+    }
+    return files[0];
+  }
+
+  // In `uniqueFilenames` mode, the note stays in the same dir,
+  // in `relativePaths` mode, `newName` is a path relative to the document being edited.
+  static newNotePathFor(newName: string, oldFsPath: string, document: vscode.TextDocument): string {
+    const filename = NoteWorkspace.noteFileNameForRename(basename(newName), oldFsPath);
+    if (NoteWorkspace.useUniqueFilenames(document.uri.fsPath)) {
+      return join(dirname(oldFsPath), filename);
+    }
+    return resolve(dirname(document.uri.fsPath), dirname(newName), filename);
+  }
+
+  // add an edit to `edit` for every [[wiki-link]] in the workspace that points
+  // at `oldFsPath` so that it will point at `newFsPath`.
+  // The links are found in the notes with a backlink to `oldFsPath` in the index,
+  // and in the open notes, whose edits the index may not have caught up with yet.
+  // Once the note has been `renamed`, the links in the note itself are edited at `newFsPath`.
+  static async addWikiLinkEdits(
+    edit: vscode.WorkspaceEdit,
+    oldFsPath: string,
+    newFsPath: string,
+    renamed = false
+  ): Promise<vscode.WorkspaceEdit> {
+    await NoteParser.ready();
+    const movedFsPath = (p: string) => (renamed && p == oldFsPath ? newFsPath : p);
+    let fsPaths: Set<string> = new Set();
+    NoteParser._backlinksFor(oldFsPath).map((ir) => fsPaths.add(movedFsPath(ir.fsPath)));
+    vscode.workspace.textDocuments
+      .filter((d) => NoteWorkspace.isNoteFile(d.uri))
+      .map((d) => fsPaths.add(d.uri.fsPath));
+    fsPaths.forEach((fsPath) => {
+      const cachedFsPath = renamed && fsPath == newFsPath ? oldFsPath : fsPath;
+      const note = MarkdownRenameProvider.currentNote(fsPath, NoteParser._notes[cachedFsPath]);
+      note.refCandidates
+        .filter(
+          (rc) =>
+            isWikiLinkType(rc.refType) &&
+            NoteParser.resolveWikiLink(rc.rawText, fsPath).includes(oldFsPath)
+        )
+        .map((rc) => {
+          const text = NoteWorkspace.wikiLinkTextForRename(rc.rawText, fsPath, newFsPath);
+          const r = rc.range;
+          edit.replace(
+            vscode.Uri.file(fsPath),
+            new vscode.Range(r.start.line, r.start.character, r.end.line, r.end.character),
+            `[[${text}]]`
+          );
+        });
+    });
+    return edit;
+  }
+
+  // the note at `fsPath` as it is right now: parsed from the text in its editor if it is open,
+  // which the NoteParser cache may not have caught up with yet,
+  // or else the `cached` Note
+  static currentNote(fsPath: string, cached: Note | undefined): Note {
+    const document = vscode.workspace.textDocuments.find((d) => d.uri.fsPath == fsPath);
+    if (cached && (!document || document.getText() == cached.data)) {
+      return cached;
+    }
+    const current = new Note(fsPath);
+    if (document) {
+      current.data = document.getText();
+      current.parseData(false);
+    }
+    return current;
+  }
+
+  // when note files are renamed outside of the RenameProvider (eg, in the Explorer),
+  // rewrite the wiki-links that pointed to the old filenames.
+  // A rename by the RenameProvider has already rewritten its links (see _renames).
+  static async onDidRenameFiles(e: vscode.FileRenameEvent) {
+    let edit = new vscode.WorkspaceEdit();
+    for (const f of e.files) {
+      const oldFsPath = f.oldUri.fsPath;
+      const newFsPath = f.newUri.fsPath;
+      if (!NoteWorkspace.isNoteFile(f.oldUri)) {
+        continue;
+      }
+      const renamedByProvider = MarkdownRenameProvider._renames.get(oldFsPath) == newFsPath;
+      MarkdownRenameProvider._renames.delete(oldFsPath);
+      if (!renamedByProvider) {
+        // find the links before the old note is removed from the index
+        const renamed = true;
+        await MarkdownRenameProvider.addWikiLinkEdits(edit, oldFsPath, newFsPath, renamed);
+      }
+      NoteWatcher.queue(oldFsPath, NoteChange.Deleted);
+      NoteWatcher.queue(newFsPath, NoteChange.Changed);
+    }
+    if (edit.size > 0) {
+      await vscode.workspace.applyEdit(edit);
+    }
+  }
+}
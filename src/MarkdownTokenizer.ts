@@ -0,0 +1,194 @@
+/*
+Splits the text of a note into lines, keeping only the parts of each line
+where a [[wiki-link]] or #tag can appear. Everything else is replaced by spaces,
+so that character offsets still line up with the original document:
+
+- fenced (``` or ~~~) and indented code blocks
+- `inline code` spans
+- <!-- HTML comments --> (which may span lines)
+- the URLs of [links](https://example.com/page#L42), <autolinks>, bare https:// URLs
+  and [reference]: https://example.com definitions
+- the # markers of `# Headings`
+
+This is not a full Markdown parser,
+just enough of one to avoid, eg, `#include` in a C snippet showing up as a #tag.
+
+*/
+export type MarkdownLine = {
+  // the line, with everything that cannot contain a [[wiki-link]] or #tag blanked out
+  text: string;
+  // true for the lines of a fenced or indented code block (including the fences)
+  inCodeBlock: boolean;
+};
+
+const rxFence = /^\s*(`{3,}|~{3,})/;
+const rxListItem = /^\s*([\-\*\+]|\d+[\.\)])\s/;
+const rxIndentedCode = /^( {4}|\t)/;
+const rxHeadingMarker = /^( {0,3})(\#{1,6})(?=\s|$)/;
+const rxReferenceDefinition = /^( {0,3}\[[^\]]+\]:\s*)(\S+)/;
+const rxAutolink = /^<[a-z][a-z0-9\+\.\-]*:[^\s<>]*>/i;
+const rxBareUrl = /^[a-z][a-z0-9\+\.\-]*:\/\/[^\s<>\[\]]*/i;
+
+const blank = (s: string): string => s.replace(/[^\s]/g, ' ');
+
+const blankRange = (chars: Array<string>, start: number, end: number) => {
+  for (let i = start; i < end && i < chars.length; i++) {
+    chars[i] = chars[i] == '\t' ? '\t' : ' ';
+  }
+};
+
+// the length of a bare URL, without trailing punctuation,
+// or an unbalanced `)`, eg, the one at the end of (see https://example.com)
+const bareUrlLength = (url: string): number => {
+  let u = url.replace(/[\.,;:!\?'"]+$/, '');
+  while (u.endsWith(')') && u.split('(').length < u.split(')').length) {
+    u = u.slice(0, -1).replace(/[\.,;:!\?'"]+$/, '');
+  }
+  return u.length;
+};
+
+// the index of the `)` that closes the `(` at `open`, or -1
+const closingParen = (line: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < line.length; i++) {
+    if (line[i] == '(') {
+      depth++;
+    } else if (line[i] == ')') {
+      depth--;
+      if (depth == 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+};
+
+// blank out the inline parts of a (non-code block) line,
+// returning whether the line ends inside an unclosed HTML comment
+const scanInline = (chars: Array<string>, line: string, inComment: boolean): boolean => {
+  let m = line.match(rxReferenceDefinition);
+  if (m) {
+    blankRange(chars, m[1].length, m[1].length + m[2].length);
+  }
+  m = line.match(rxHeadingMarker);
+  if (m) {
+    blankRange(chars, m[1].length, m[1].length + m[2].length);
+  }
+
+  let i = 0;
+  while (i < line.length) {
+    if (inComment) {
+      let end = line.indexOf('-->', i);
+      if (end == -1) {
+        blankRange(chars, i, line.length);
+        return true;
+      }
+      blankRange(chars, i, end + 3);
+      inComment = false;
+      i = end + 3;
+      continue;
+    }
+    if (line.startsWith('<!--', i)) {
+      blankRange(chars, i, i + 4);
+      inComment = true;
+      i += 4;
+      continue;
+    }
+    let rest = line.slice(i);
+    if (line[i] == '`') {
+      // a code span ends at the next run of exactly as many backticks
+      let run = (rest.match(/^`+/) as RegExpMatchArray)[0];
+      let rxClose = new RegExp(`(^|[^\`])${run}(?!\`)`);
+      let close = line.slice(i + run.length).match(rxClose);
+      if (close && close.index !== undefined) {
+        let end = i + run.length + close.index + close[1].length + run.length;
+        blankRange(chars, i, end);
+        i = end;
+      } else {
+        i += run.length;
+      }
+      continue;
+    }
+    if (line.startsWith('](', i)) {
+      let close = closingParen(line, i + 1);
+      if (close != -1) {
+        blankRange(chars, i + 2, close);
+        i = close + 1;
+        continue;
+      }
+    }
+    m = rest.match(rxAutolink);
+    if (m) {
+      blankRange(chars, i, i + m[0].length);
+      i += m[0].length;
+      continue;
+    }
+    m = i == 0 || !line[i - 1].match(/\w/) ? rest.match(rxBareUrl) : null;
+    if (m) {
+      let len = bareUrlLength(m[0]);
+      blankRange(chars, i, i + len);
+      i += Math.max(len, 1);
+      continue;
+    }
+    i++;
+  }
+  return inComment;
+};
+
+export const tokenizeMarkdown = (data: string): Array<MarkdownLine> => {
+  let fence: string | undefined;
+  let inIndentedCode = false;
+  let inComment = false;
+  let inList = false;
+  let prevBlank = true;
+
+  return data.split(/\r?\n/).map((line) => {
+    let isBlank = line.trim() == '';
+
+    // ``` or ~~~ fenced code, closed by a fence of the same char, at least as long
+    if (fence !== undefined) {
+      let m = line.match(rxFence);
+      if (m && m[1][0] == fence[0] && m[1].length >= fence.length && line.trim() == m[1]) {
+        fence = undefined;
+      }
+      prevBlank = false;
+      return { text: blank(line), inCodeBlock: true };
+    }
+    if (!inComment) {
+      let m = line.match(rxFence);
+      if (m) {
+        fence = m[1];
+        inIndentedCode = false;
+        prevBlank = false;
+        return { text: blank(line), inCodeBlock: true };
+      }
+    }
+
+    // indented code only starts after a blank line,
+    // and not in a list, where indentation is used for nested items
+    if (!isBlank && !inComment && rxIndentedCode.test(line)) {
+      if (inIndentedCode || (prevBlank && !inList)) {
+        inIndentedCode = true;
+        prevBlank = false;
+        return { text: blank(line), inCodeBlock: true };
+      }
+    } else if (!isBlank) {
+      inIndentedCode = false;
+    }
+
+    if (isBlank) {
+      prevBlank = true;
+    } else {
+      if (rxListItem.test(line)) {
+        inList = true;
+      } else if (prevBlank && !rxIndentedCode.test(line)) {
+        inList = false;
+      }
+      prevBlank = false;
+    }
+
+    let chars = line.split('');
+    inComment = scanInline(chars, line, inComment);
+    return { text: chars.join(''), inCodeBlock: false };
+  });
+};
@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import { dirname, join } from 'path';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { NoteWorkspace } from './NoteWorkspace';
+import { NoteTemplate } from './NoteTemplate';
+
+// The New Note command, and creating (from a template) and opening new notes,
+// eg, for PeriodicNotes
+export class NewNote {
+  static newNote(context: vscode.ExtensionContext) {
+    // console.debug('newNote');
+    const inputBoxPromise = vscode.window.showInputBox({
+      prompt:
+        "Enter a 'Title Case Name' to create `title-case-name.md` with '# Title Case Name' at the top.",
+      value: '',
+    });
+
+    inputBoxPromise.then(
+      async (noteName) => {
+        if (noteName == null || !noteName || noteName.replace(/\s+/g, '') == '') {
+          // console.debug('Abort: noteName was empty.');
+          return false;
+        }
+
+        const folder = await NoteWorkspace.workspaceFolderForNewNote();
+        if (!folder) {
+          return false;
+        }
+
+        // the active note, for the `sameDirectory` newNoteLocation
+        const active = vscode.window.activeTextEditor?.document.uri;
+        const activeFolder = active && vscode.workspace.getWorkspaceFolder(active);
+        const fromFsPath =
+          active && activeFolder && activeFolder.uri.fsPath == folder.uri.fsPath
+            ? active.fsPath
+            : undefined;
+        const location = NoteWorkspace.cfg(folder.uri.fsPath).newNoteLocation;
+        const dir = await NoteWorkspace.newNoteDir(location, folder.uri.fsPath, fromFsPath);
+        if (dir === undefined) {
+          return false;
+        }
+
+        const filename = NoteWorkspace.noteFileNameFor(noteName, dir);
+        const filepath = join(dir, filename);
+        let contents = '';
+        if (!existsSync(filepath)) {
+          const template = await NoteTemplate.pick(filepath, folder.uri.fsPath);
+          if (template === undefined) {
+            return false;
+          }
+          contents = NoteTemplate.render(NoteTemplate.read(folder.uri.fsPath, template), {
+            title: noteName,
+            date: new Date(),
+            fsPath: filepath,
+          });
+        }
+        NewNote.createAndOpenNote(filepath, contents);
+      },
+      (err) => {
+        vscode.window.showErrorMessage('Error creating new note.');
+        // console.error(err);
+      }
+    );
+  }
+
+  // Open the note at `filepath`, first creating it (and its folder) with `contents`
+  // if it does not exist yet, in which case the cursor goes to the {{cursor}} in `contents`,
+  // or else the end of the new note.
+  static async createAndOpenNote(filepath: string, contents: string) {
+    const fileAlreadyExists = existsSync(filepath);
+    const { text, offset } = NoteTemplate.cursor(contents);
+    // create the file if it does not exists
+    if (!fileAlreadyExists) {
+      mkdirSync(dirname(filepath), { recursive: true });
+      writeFileSync(filepath, text);
+    }
+
+    // open the file:
+    const editor = await vscode.window.showTextDocument(vscode.Uri.file(filepath), {
+      preserveFocus: false,
+      preview: false,
+    });
+    // if we created a new file, hop to the {{cursor}}, or its last line
+    if (!fileAlreadyExists) {
+      let doc = editor.document;
+      let range =
+        offset === undefined
+          ? doc.lineAt(doc.lineCount - 1).range
+          : new vscode.Range(doc.positionAt(offset), doc.positionAt(offset));
+      editor.selection = new vscode.Selection(range.start, range.end);
+      editor.revealRange(range);
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import { basename, dirname, resolve } from 'path';
+import { existsSync } from 'fs';
+import { Note, NoteParser, RawRange } from './NoteParser';
+import { NoteWorkspace } from './NoteWorkspace';
+import { isWikiLinkType } from './Ref';
+import { debounce } from './utils';
+
+export enum NoteDiagnosticCode {
+  MissingNote = 'missingNote',
+  AmbiguousLink = 'ambiguousLink',
+  MissingAnchor = 'missingAnchor',
+  OrphanNote = 'orphanNote',
+}
+
+// A problem found in a Note, before it is converted to a vscode.Diagnostic.
+// Kept free of vscode types so it can be tested headless.
+export type NoteProblem = {
+  fsPath: string;
+  range: RawRange;
+  code: NoteDiagnosticCode;
+  message: string;
+};
+
+const TOP_OF_FILE: RawRange = {
+  start: { line: 0, character: 0 },
+  end: { line: 0, character: 0 },
+};
+
+// Uses the parsed Notes in the NoteParser cache to report:
+// 1. [[wiki-links]] that do not resolve to any note
+// 2. [[wiki-links]] that resolve to more than 1 note (`uniqueFilenames` only)
+// 3. [[note#Heading]] and [[note#^block-id]] wiki-links to sections that do not exist
+// 4. notes that no other note links to
+// in a vscode.DiagnosticCollection (ie, the Problems panel)
+export class NoteDiagnostics {
+  static SOURCE = 'Markdown Notes';
+  static _collection: vscode.DiagnosticCollection | undefined;
+
+  static collection(): vscode.DiagnosticCollection {
+    if (!this._collection) {
+      this._collection = vscode.languages.createDiagnosticCollection('vscodeMarkdownNotes');
+    }
+    return this._collection;
+  }
+
+  // refresh is a scan of every link in the workspace (each resolved through the index),
+  // so wait until a burst of edits has settled before running it
+  static refreshSoon = debounce(() => NoteDiagnostics.refresh(), 500);
+
+  static refresh() {
+    let collection = this.collection();
+    collection.clear();
+    if (!NoteWorkspace.diagnosticsEnabled()) {
+      return;
+    }
+    let notes = Object.values(NoteParser._notes);
+    let problems = this.problemsFor(notes, NoteWorkspace.diagnoseOrphanNotes());
+    let byFile: Record<string, vscode.Diagnostic[]> = {};
+    problems.map((p) => {
+      if (!byFile[p.fsPath]) {
+        byFile[p.fsPath] = [];
+      }
+      byFile[p.fsPath].push(this.toDiagnostic(p));
+    });
+    Object.keys(byFile).map((fsPath) => {
+      collection.set(vscode.Uri.file(fsPath), byFile[fsPath]);
+    });
+  }
+
+  static toDiagnostic(p: NoteProblem): vscode.Diagnostic {
+    let r = p.range;
+    let range = new vscode.Range(r.start.line, r.start.character, r.end.line, r.end.character);
+    let severity =
+      p.code == NoteDiagnosticCode.OrphanNote
+        ? vscode.DiagnosticSeverity.Information
+        : vscode.DiagnosticSeverity.Warning;
+    let d = new vscode.Diagnostic(range, p.message, severity);
+    d.source = this.SOURCE;
+    d.code = p.code;
+    return d;
+  }
+
+  static problemsFor(notes: Array<Note>, includeOrphans: boolean): Array<NoteProblem> {
+    let problems: Array<NoteProblem> = [];
+    // fsPaths of notes that are linked to from some other note:
+    let linkedTo: Set<string> = new Set();
+
+    notes.map((note) => {
+      note.refCandidates
+        .filter((rc) => isWikiLinkType(rc.refType))
+        .map((rc) => {
+          // each link is only resolved against the indexed notes with the name it points to,
+          // except a [[#Heading]] wiki-link, which is to the note it is in
+          let matches = NoteWorkspace.wikiLinkTarget(rc.rawText)
+            ? NoteParser.resolveWikiLink(rc.rawText, note.fsPath)
+            : [note.fsPath];
+          matches.filter((m) => m != note.fsPath).map((m) => linkedTo.add(m));
+          if (matches.length == 0) {
+            // Go to Definition will still open a non-note file at a relative path,
+            // eg, [[../src/extension.ts]], so don't report those
+            let target = NoteWorkspace.wikiLinkTarget(rc.rawText);
+            if (existsSync(resolve(dirname(note.fsPath), target))) {
+              return;
+            }
+            problems.push({
+              fsPath: note.fsPath,
+              range: rc.range,
+              code: NoteDiagnosticCode.MissingNote,
+              message: `No note found for ${rc.rawText}`,
+            });
+          } else if (matches.length > 1) {
+            let names = matches.map((m) => basename(m)).join(', ');
+            problems.push({
+              fsPath: note.fsPath,
+              range: rc.range,
+              code: NoteDiagnosticCode.AmbiguousLink,
+              message: `${rc.rawText} matches more than 1 note: ${names}`,
+            });
+          } else {
+            let fragment = NoteWorkspace.wikiLinkParts(rc.rawText).fragment;
+            let target = NoteParser._notes[matches[0]] || note;
+            if (fragment && target && target.lineForFragment(fragment) === undefined) {
+              let kind = fragment.startsWith('^') ? 'block' : 'heading';
+              problems.push({
+                fsPath: note.fsPath,
+                range: rc.range,
+                code: NoteDiagnosticCode.MissingAnchor,
+                message: `No ${kind} '${fragment}' found in ${basename(target.fsPath)}`,
+              });
+            }
+          }
+        });
+    });
+
+    if (includeOrphans) {
+      notes
+        .filter((note) => !linkedTo.has(note.fsPath))
+        .map((note) => {
+          problems.push({
+            fsPath: note.fsPath,
+            range: TOP_OF_FILE,
+            code: NoteDiagnosticCode.OrphanNote,
+            message: `No other note links to ${basename(note.fsPath)}`,
+          });
+        });
+    }
+    return problems;
+  }
+}
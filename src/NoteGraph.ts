@@ -0,0 +1,96 @@
+import { basename } from 'path';
+import { Note } from './NoteParser';
+import { NoteNames } from './NoteIndex';
+import { NoteWorkspace } from './NoteWorkspace';
+import { isWikiLinkType } from './Ref';
+
+export type GraphNode = {
+  // the fsPath of the note
+  id: string;
+  label: string;
+  // the number of other notes that link to this one
+  backlinks: number;
+  // the note's tags (sorted), the first of which it is colored by
+  tags: Array<string>;
+};
+
+export type GraphEdge = {
+  source: string;
+  target: string;
+};
+
+export type Graph = {
+  nodes: Array<GraphNode>;
+  edges: Array<GraphEdge>;
+};
+
+// The graph of notes and the [[wiki-links]] between them, as shown by the NoteGraphPanel.
+// Only links that resolve to exactly 1 other note are edges,
+// and each pair of linked notes has 1 edge, however many links there are.
+export class NoteGraph {
+  static build(notes: Array<Note>): Graph {
+    let names = new NoteNames();
+    notes.map((note) => names.add(note.fsPath, note.aliases()));
+
+    let edges: Map<string, GraphEdge> = new Map();
+    let linkedFrom: Map<string, Set<string>> = new Map();
+    notes.map((note) => {
+      note.refCandidates
+        .filter((rc) => isWikiLinkType(rc.refType))
+        .map((rc) => {
+          let matches = NoteWorkspace.noteFsPathsForWikiLink(
+            rc.rawText,
+            note.fsPath,
+            names.candidates(rc.rawText),
+            (p) => names.aliasesFor(p)
+          );
+          if (matches.length != 1 || matches[0] == note.fsPath) {
+            return;
+          }
+          let target = matches[0];
+          edges.set(`${note.fsPath}\n${target}`, { source: note.fsPath, target: target });
+          linkedFrom.set(target, (linkedFrom.get(target) || new Set()).add(note.fsPath));
+        });
+    });
+
+    return {
+      nodes: notes.map((note) => ({
+        id: note.fsPath,
+        label: note.title() || NoteWorkspace.stripExtension(basename(note.fsPath)),
+        backlinks: (linkedFrom.get(note.fsPath) || new Set()).size,
+        tags: Array.from(note.tagSet()).sort(),
+      })),
+      edges: Array.from(edges.values()),
+    };
+  }
+
+  // the part of `graph` within `hops` links (in either direction) of the note `center`
+  static neighborhood(graph: Graph, center: string, hops: number): Graph {
+    let neighbors: Map<string, Array<string>> = new Map();
+    let addNeighbor = (a: string, b: string) => {
+      neighbors.set(a, (neighbors.get(a) || []).concat([b]));
+    };
+    graph.edges.map((e) => {
+      addNeighbor(e.source, e.target);
+      addNeighbor(e.target, e.source);
+    });
+    let included: Set<string> = new Set([center]);
+    let frontier = [center];
+    for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+      let next: Array<string> = [];
+      frontier.map((id) =>
+        (neighbors.get(id) || []).map((n) => {
+          if (!included.has(n)) {
+            included.add(n);
+            next.push(n);
+          }
+        })
+      );
+      frontier = next;
+    }
+    return {
+      nodes: graph.nodes.filter((n) => included.has(n.id)),
+      edges: graph.edges.filter((e) => included.has(e.source) && included.has(e.target)),
+    };
+  }
+}
@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import { join } from 'path';
+import { NoteParser } from './NoteParser';
+import { NoteGraph } from './NoteGraph';
+import { NoteWatcher } from './NoteWatcher';
+import { debounce } from './utils';
+
+export enum GraphMode {
+  Local = 'local',
+  Global = 'global',
+}
+
+// messages from the webview (see media/graph.js)
+type GraphMessage =
+  | { type: 'ready' }
+  | { type: 'open'; id: string }
+  | { type: 'setMode'; mode: GraphMode; hops: number };
+
+// A webview with a force-directed graph of the notes and the [[wiki-links]] between them,
+// either every note (Global), or the notes within N links of the active note (Local).
+// Nodes are sized by their number of backlinks and colored by their first tag,
+// and clicking one opens the note.
+// The graph is redrawn when the index changes, or in Local mode, when the active note changes.
+// The script and styles are in media/, so the webview works offline.
+export class NoteGraphPanel {
+  static VIEW_TYPE = 'vscodeMarkdownNotesGraph';
+  static currentPanel: NoteGraphPanel | undefined;
+
+  mode: GraphMode = GraphMode.Local;
+  hops = 2;
+  // the note Local mode is centered on: the active note, or the last one that was active
+  center: string | undefined;
+  private disposables: Array<vscode.Disposable> = [];
+  private disposed = false;
+  // the last graph posted to the webview, so that an index change that does not change
+  // the graph (eg, an edit to the text of a note) does not post it again
+  private lastMessage: string | undefined;
+
+  // show the graph, reusing the panel if it is already open
+  static show(context: vscode.ExtensionContext) {
+    if (NoteGraphPanel.currentPanel) {
+      NoteGraphPanel.currentPanel.panel.reveal();
+      return;
+    }
+    let panel = vscode.window.createWebviewPanel(
+      NoteGraphPanel.VIEW_TYPE,
+      'Note Graph',
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [vscode.Uri.file(join(context.extensionPath, 'media'))],
+      }
+    );
+    NoteGraphPanel.currentPanel = new NoteGraphPanel(panel, context.extensionPath);
+  }
+
+  constructor(private panel: vscode.WebviewPanel, private extensionPath: string) {
+    this.center = this.activeNote();
+    panel.webview.html = this.html();
+    this.disposables.push(
+      panel.onDidDispose(() => this.dispose()),
+      panel.webview.onDidReceiveMessage((m: GraphMessage) => this.onMessage(m)),
+      NoteWatcher.onDidChangeIndex(() => this.updateSoon()),
+      vscode.window.onDidChangeActiveTextEditor(() => {
+        let active = this.activeNote();
+        if (active && active != this.center) {
+          this.center = active;
+          if (this.mode == GraphMode.Local) {
+            this.update();
+          }
+        }
+      })
+    );
+  }
+
+  activeNote(): string | undefined {
+    let uri = vscode.window.activeTextEditor?.document.uri;
+    return uri && NoteParser._notes[uri.fsPath] ? uri.fsPath : undefined;
+  }
+
+  onMessage(m: GraphMessage) {
+    if (m.type == 'ready') {
+      // the webview has (re)loaded, so it has no graph yet
+      this.update(true);
+    } else if (m.type == 'open') {
+      vscode.window.showTextDocument(vscode.Uri.file(m.id), {
+        viewColumn: vscode.ViewColumn.One,
+        preview: false,
+      });
+    } else if (m.type == 'setMode') {
+      this.mode = m.mode;
+      this.hops = m.hops;
+      this.update();
+    }
+  }
+
+  async update(force = false) {
+    await NoteParser.ready();
+    // eg, closed while waiting for the index, or for updateSoon
+    if (this.disposed) {
+      return;
+    }
+    let graph = NoteGraph.build(Object.values(NoteParser._notes));
+    if (this.mode == GraphMode.Local) {
+      graph = this.center ? NoteGraph.neighborhood(graph, this.center, this.hops) : graph;
+    }
+    let message = {
+      type: 'graph',
+      graph: graph,
+      center: this.center,
+      mode: this.mode,
+      hops: this.hops,
+    };
+    let json = JSON.stringify(message);
+    if (!force && json == this.lastMessage) {
+      return;
+    }
+    this.lastMessage = json;
+    this.panel.webview.postMessage(message);
+  }
+
+  // rebuilding the graph means resolving every link, so wait for a burst of changes to settle
+  updateSoon = debounce(() => this.update(), 500);
+
+  // when the panel has been closed (see onDidDispose), so it is not disposed again here
+  dispose() {
+    this.disposed = true;
+    NoteGraphPanel.currentPanel = undefined;
+    this.disposables.map((d) => d.dispose());
+    this.disposables = [];
+  }
+
+  html(): string {
+    let webview = this.panel.webview;
+    let media = (file: string) =>
+      webview.asWebviewUri(vscode.Uri.file(join(this.extensionPath, 'media', file)));
+    let nonce = Math.random().toString(36).slice(2);
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; ` +
+      `style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <link href="${media('graph.css')}" rel="stylesheet">
+  <title>Note Graph</title>
+</head>
+<body>
+  <div id="controls">
+    <label><input type="radio" name="mode" value="local"> Local</label>
+    <label><input type="radio" name="mode" value="global"> Global</label>
+    <label id="hops-label">Hops <input id="hops" type="number" min="1" max="5"></label>
+    <span id="status"></span>
+  </div>
+  <canvas id="graph"></canvas>
+  <script nonce="${nonce}" src="${media('graphLayout.js')}"></script>
+  <script nonce="${nonce}" src="${media('graph.js')}"></script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,211 @@
+import { basename } from 'path';
+import type { Note, RefCandidate } from './NoteParser';
+import { NoteWorkspace } from './NoteWorkspace';
+import { RefType, isWikiLinkType } from './Ref';
+
+// a RefCandidate, and the note it is in
+export type IndexedRef = {
+  fsPath: string;
+  refCandidate: RefCandidate;
+};
+
+// key => fsPath => the RefCandidates in that note with that key
+type Postings = Map<string, Map<string, Array<RefCandidate>>>;
+
+// the keys a note was indexed under, so that they can be removed when it changes
+type IndexedKeys = {
+  links: Array<string>;
+  tags: Array<string>;
+  noteTags: Array<string>;
+};
+
+// The notes each name (a filename, or a frontmatter alias) is used by,
+// so that a [[wiki-link]] only has to be resolved against the few notes it could point at,
+// instead of every note in the workspace.
+// Names are keyed more loosely than by linkKey (ignoring case and trailing slug chars),
+// so that the candidates also include the note a link in `relativePaths` mode is slugified to,
+// eg, [[../projects/New Idea]] => new-idea.md (see NoteWorkspace._wikiLinkResolvesToPath).
+export class NoteNames {
+  _byName: Map<string, Set<string>> = new Map();
+  _aliasesByFsPath: Map<string, Array<string>> = new Map();
+  // the keys a note was added under, so that it can be removed even if the settings changed
+  _keysByFsPath: Map<string, Array<string>> = new Map();
+
+  static nameKey(name: string): string {
+    return NoteWorkspace.cleanTitle(NoteIndex.linkKey(name));
+  }
+
+  add(fsPath: string, aliases: Array<string>) {
+    this.remove(fsPath);
+    let keys = [basename(fsPath)].concat(aliases).map((name) => NoteNames.nameKey(name));
+    keys.map((key) => this._byName.set(key, (this._byName.get(key) || new Set()).add(fsPath)));
+    this._aliasesByFsPath.set(fsPath, aliases);
+    this._keysByFsPath.set(fsPath, keys);
+  }
+
+  remove(fsPath: string) {
+    (this._keysByFsPath.get(fsPath) || []).map((key) => {
+      let fsPaths = this._byName.get(key);
+      if (fsPaths) {
+        fsPaths.delete(fsPath);
+        if (fsPaths.size == 0) {
+          this._byName.delete(key);
+        }
+      }
+    });
+    this._aliasesByFsPath.delete(fsPath);
+    this._keysByFsPath.delete(fsPath);
+  }
+
+  clear() {
+    this._byName.clear();
+    this._aliasesByFsPath.clear();
+    this._keysByFsPath.clear();
+  }
+
+  // the fsPaths of the notes the text of a [[wiki-link]] could point at,
+  // to pass to NoteWorkspace.noteFsPathsForWikiLink
+  candidates(linkText: string): Array<string> {
+    return Array.from(this._byName.get(NoteNames.nameKey(linkText)) || []);
+  }
+
+  aliasesFor(fsPath: string): Array<string> {
+    return this._aliasesByFsPath.get(fsPath) || [];
+  }
+}
+
+// An inverted index of the Notes in the NoteParser cache:
+// - from the normalized name a [[wiki-link]] points to, to the links
+// - from a #tag, to the inline occurrences of the tag
+// - from a #tag, to the notes that use it (inline or in the frontmatter)
+//
+// - from the names of the notes, to the notes (see NoteNames)
+//
+// so that finding references, backlinks and tags, and resolving links, costs O(results),
+// instead of a scan of every note in the workspace.
+// `update` applies the difference when a note is (re-)parsed or removed.
+export class NoteIndex {
+  links: Postings = new Map();
+  tags: Postings = new Map();
+  notesByTag: Map<string, Set<string>> = new Map();
+  names: NoteNames = new NoteNames();
+  _keysByFsPath: Map<string, IndexedKeys> = new Map();
+
+  static linkKey(linkText: string): string {
+    return NoteWorkspace.normalizeNoteNameForFuzzyMatch(linkText);
+  }
+
+  update(note: Note) {
+    this.remove(note.fsPath);
+    let keys: IndexedKeys = { links: [], tags: [], noteTags: [] };
+    note.refCandidates.map((rc) => {
+      if (isWikiLinkType(rc.refType)) {
+        keys.links.push(this._add(this.links, NoteIndex.linkKey(rc.rawText), note.fsPath, rc));
+      } else if (rc.refType == RefType.Tag) {
+        keys.tags.push(this._add(this.tags, rc.rawText, note.fsPath, rc));
+      }
+    });
+    note.tagSet().forEach((tag) => {
+      let fsPaths = this.notesByTag.get(tag) || new Set();
+      fsPaths.add(note.fsPath);
+      this.notesByTag.set(tag, fsPaths);
+      keys.noteTags.push(tag);
+    });
+    this._keysByFsPath.set(note.fsPath, keys);
+    this.names.add(note.fsPath, note.aliases());
+  }
+
+  remove(fsPath: string) {
+    this.names.remove(fsPath);
+    let keys = this._keysByFsPath.get(fsPath);
+    if (!keys) {
+      return;
+    }
+    keys.links.map((k) => this._remove(this.links, k, fsPath));
+    keys.tags.map((k) => this._remove(this.tags, k, fsPath));
+    keys.noteTags.map((tag) => {
+      let fsPaths = this.notesByTag.get(tag);
+      if (fsPaths) {
+        fsPaths.delete(fsPath);
+        if (fsPaths.size == 0) {
+          this.notesByTag.delete(tag);
+        }
+      }
+    });
+    this._keysByFsPath.delete(fsPath);
+  }
+
+  clear() {
+    this.links.clear();
+    this.tags.clear();
+    this.notesByTag.clear();
+    this._keysByFsPath.clear();
+    this.names.clear();
+  }
+
+  // the [[wiki-links]] that point to `word` (a filename, or a name / alias it is linked by)
+  linkRefs(word: string): Array<IndexedRef> {
+    return this._refs(this.links, NoteIndex.linkKey(word));
+  }
+
+  // the occurrences of `tag` (with the leading #),
+  // and with includeNestedTags, of the tags nested under it
+  tagRefs(tag: string, includeNestedTags = false): Array<IndexedRef> {
+    if (!includeNestedTags) {
+      return this._refs(this.tags, tag);
+    }
+    let refs: Array<IndexedRef> = [];
+    this.tags.forEach((_, t) => {
+      if (NoteWorkspace.tagIsOrDescendsFrom(t, tag)) {
+        refs = refs.concat(this._refs(this.tags, t));
+      }
+    });
+    return refs;
+  }
+
+  distinctTags(): Array<string> {
+    return Array.from(this.notesByTag.keys());
+  }
+
+  // fsPaths of the notes that use `tag`, inline or in the frontmatter
+  notesForTag(tag: string): Array<string> {
+    return Array.from(this.notesByTag.get(tag) || []);
+  }
+
+  _add(postings: Postings, key: string, fsPath: string, rc: RefCandidate): string {
+    let byFsPath = postings.get(key);
+    if (!byFsPath) {
+      byFsPath = new Map();
+      postings.set(key, byFsPath);
+    }
+    let rcs = byFsPath.get(fsPath);
+    if (!rcs) {
+      rcs = [];
+      byFsPath.set(fsPath, rcs);
+    }
+    rcs.push(rc);
+    return key;
+  }
+
+  _remove(postings: Postings, key: string, fsPath: string) {
+    let byFsPath = postings.get(key);
+    if (byFsPath) {
+      byFsPath.delete(fsPath);
+      if (byFsPath.size == 0) {
+        postings.delete(key);
+      }
+    }
+  }
+
+  _refs(postings: Postings, key: string): Array<IndexedRef> {
+    let refs: Array<IndexedRef> = [];
+    let byFsPath = postings.get(key);
+    if (!byFsPath) {
+      return refs;
+    }
+    byFsPath.forEach((rcs, fsPath) => {
+      rcs.map((rc) => refs.push({ fsPath: fsPath, refCandidate: rc }));
+    });
+    return refs;
+  }
+}
@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import { join } from 'path';
+const fsp = require('fs').promises;
+import { Note, NoteParser, SerializedNote } from './NoteParser';
+import { debounce } from './utils';
+
+type IndexFile = {
+  version: number;
+  notes: Record<string, SerializedNote>;
+};
+
+// Saves the parsed Notes in the NoteParser cache to a file in the extension's storage,
+// so that on startup, `NoteParser.hydrateCache` only has to re-parse the notes
+// that have changed since, instead of every note in the workspace.
+export class NoteIndexStore {
+  // bump this whenever the format of SerializedNote (or what the parser produces) changes,
+  // so that an index saved by an older version is rebuilt instead of used
+  static SCHEMA_VERSION = 2;
+  static FILENAME = 'note-index.json';
+
+  // storagePath is undefined when no workspace is open, in which case nothing is stored
+  constructor(private storagePath: string | undefined) {}
+
+  get fsPath(): string | undefined {
+    return this.storagePath ? join(this.storagePath, NoteIndexStore.FILENAME) : undefined;
+  }
+
+  // the saved notes by fsPath, or {} if there is no (usable) saved index
+  async load(): Promise<Record<string, SerializedNote>> {
+    if (!this.fsPath) {
+      return {};
+    }
+    try {
+      return NoteIndexStore.parse(await fsp.readFile(this.fsPath, 'utf8'));
+    } catch (e) {
+      return {};
+    }
+  }
+
+  static parse(json: string): Record<string, SerializedNote> {
+    let index: IndexFile = JSON.parse(json);
+    if (!index || index.version !== NoteIndexStore.SCHEMA_VERSION || !index.notes) {
+      return {};
+    }
+    return index.notes;
+  }
+
+  static stringify(notes: Array<Note>): string {
+    let index: IndexFile = { version: NoteIndexStore.SCHEMA_VERSION, notes: {} };
+    notes.map((note) => {
+      let s = note.serialize();
+      if (s) {
+        index.notes[note.fsPath] = s;
+      }
+    });
+    return JSON.stringify(index);
+  }
+
+  async save(notes: Array<Note>) {
+    let fsPath = this.fsPath;
+    if (!this.storagePath || !fsPath) {
+      return;
+    }
+    try {
+      await fsp.mkdir(this.storagePath, { recursive: true });
+      // write to a temp file first, so a crash mid-write can't leave a truncated index
+      let tmp = `${fsPath}.tmp`;
+      await fsp.writeFile(tmp, NoteIndexStore.stringify(notes));
+      await fsp.rename(tmp, fsPath);
+    } catch (e) {
+      vscode.window.showErrorMessage(`Error saving the note index to ${fsPath}: ${e}`);
+    }
+  }
+
+  // saving serializes the whole index, so batch up changes
+  saveSoon = debounce(() => this.save(Object.values(NoteParser._notes)), 5000);
+}
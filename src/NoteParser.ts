@@ -1,20 +1,52 @@
 import * as vscode from 'vscode';
-import { basename } from 'path';
-import { readFile } from 'fs';
+import { existsSync, readFile, stat } from 'fs';
+import { basename, dirname, resolve } from 'path';
 const fsp = require('fs').promises;
-import { Ref, RefType } from './Ref';
+import { Ref, RefType, isWikiLinkType } from './Ref';
 import { NoteWorkspace } from './NoteWorkspace';
+import { Frontmatter, parseFrontmatter } from './Frontmatter';
+import { tokenizeMarkdown } from './MarkdownTokenizer';
+import { IndexedRef, NoteIndex } from './NoteIndex';
+import { escapeRegExp } from './utils';
 
-const RETURN_TYPE_VSCODE = 'vscode';
 type RawPosition = {
   line: number;
   character: number;
 };
-type RawRange = {
+export type RawRange = {
   start: RawPosition;
   end: RawPosition;
 };
-class RefCandidate {
+export type Heading = { text: string; level: number; line: number };
+export type BlockId = { id: string; line: number };
+// the modification time and size of a note file when it was read
+export type NoteStat = { mtimeMs: number; size: number };
+
+export enum LinkStatus {
+  Exists = 'exists',
+  Missing = 'missing',
+  Ambiguous = 'ambiguous',
+}
+
+// the [[wiki-links]] in a note to 1 target, see NoteParser.outgoingLinks
+export type OutgoingLink = {
+  // the target of the first of the links, eg, `the-heat` for [[the-heat#Heading|label]]
+  target: string;
+  status: LinkStatus;
+  // the files the links resolve to: 1 if it exists, more if it is ambiguous
+  fsPaths: Array<string>;
+  refCandidates: Array<RefCandidate>;
+};
+
+// the parsed parts of a Note, as stored in the NoteIndexStore
+export type SerializedNote = {
+  stat: NoteStat;
+  refCandidates: Array<{ rawText: string; range: RawRange; refType: RefType }>;
+  frontmatter: Frontmatter | undefined;
+  headings: Array<Heading>;
+  blockIds: Array<BlockId>;
+};
+export class RefCandidate {
   rawText: string; // candidate match for a tag or wiki-link
   range: RawRange;
   refType: RefType;
@@ -34,13 +66,21 @@ class RefCandidate {
     return new RefCandidate(match[0], r, cwType);
   };
 
-  matchesContextWord(ref: Ref): boolean {
-    if (ref.type != this.refType) {
+  // with includeNestedTags, a ref to #project also matches #project/alpha
+  // (and a ref to a [[wiki-link]] also matches a ![[wiki-link]] embed)
+  matchesContextWord(ref: Ref, includeNestedTags = false): boolean {
+    let sameType = isWikiLinkType(ref.type)
+      ? isWikiLinkType(this.refType)
+      : ref.type == this.refType;
+    if (!sameType) {
       return false;
     }
     if (ref.type == RefType.Tag) {
+      if (includeNestedTags) {
+        return NoteWorkspace.tagIsOrDescendsFrom(this.rawText, `#${ref.word}`);
+      }
       return this.rawText == `#${ref.word}`;
-    } else if (ref.type == RefType.WikiLink) {
+    } else if (isWikiLinkType(ref.type)) {
       return NoteWorkspace.noteNamesFuzzyMatch(this.rawText, ref.word);
     }
     return false;
@@ -56,11 +96,62 @@ export class Note {
   fsPath: string;
   data: string | undefined;
   refCandidates: Array<RefCandidate> = [];
+  frontmatter: Frontmatter | undefined;
+  stat: NoteStat | undefined;
   private _parsed: boolean = false;
+  private _headings: Array<Heading> | undefined;
+  private _blockIds: Array<BlockId> | undefined;
+  private _lines: { data: string; lines: Array<string> } | undefined;
   constructor(fsPath: string) {
     this.fsPath = fsPath;
   }
 
+  // a Note restored from the NoteIndexStore is parsed,
+  // but has no data until it is read again (see NoteParser.readNote)
+  static deserialize(fsPath: string, s: SerializedNote): Note {
+    let note = new Note(fsPath);
+    note.stat = s.stat;
+    note.refCandidates = s.refCandidates.map(
+      (rc) => new RefCandidate(rc.rawText, rc.range, rc.refType)
+    );
+    note.frontmatter = s.frontmatter;
+    note._headings = s.headings;
+    note._blockIds = s.blockIds;
+    note._parsed = true;
+    return note;
+  }
+
+  serialize(): SerializedNote | undefined {
+    if (!this._parsed || !this.stat) {
+      return;
+    }
+    return {
+      stat: this.stat,
+      refCandidates: this.refCandidates.map((rc) => ({
+        rawText: rc.rawText,
+        range: rc.range,
+        refType: rc.refType,
+      })),
+      frontmatter: this.frontmatter,
+      headings: this.headings(),
+      blockIds: this.blockIds(),
+    };
+  }
+
+  isParsed(): boolean {
+    return this._parsed;
+  }
+
+  // the lines of the note's data, only split again when the data changes,
+  // eg, so that a tree view can show a line for each of many links into the same note
+  lines(): Array<string> {
+    let data = this.data || '';
+    if (!this._lines || this._lines.data !== data) {
+      this._lines = { data: data, lines: data.split(/\r?\n/) };
+    }
+    return this._lines.lines;
+  }
+
   // mostly used as a constructor for tests
   // when we don't want to actually parse something
   // from the filesystem.
@@ -88,29 +179,45 @@ export class Note {
     }
     // make sure we reset parsed to false because we are re-reading the file
     // and we don't want to end up using the old parsed refCandidates
-    // in the event that parseData(true) is called in the interim
-    this._parsed = false;
+    // in the event that parseData(true) is called in the interim.
+    // With useCache, a note that is already parsed (eg, restored from the NoteIndexStore)
+    // stays parsed, unless the file turns out to have changed since.
+    if (!useCache) {
+      this._parsed = false;
+    }
     return new Promise((resolve, reject) => {
-      readFile(that.fsPath, (err, buffer) => {
-        if (err) {
-          reject(err);
-        } else {
-          // NB! Make sure to cast this to a string
-          // otherwise, it will cause weird silent failures
-          that.data = `${buffer}`;
-          resolve(that);
+      // stat BEFORE reading, so that if the file changes in between,
+      // the stat is stale rather than the data
+      stat(that.fsPath, (statErr, stats) => {
+        if (statErr) {
+          return reject(statErr);
         }
+        readFile(that.fsPath, (err, buffer) => {
+          if (err) {
+            reject(err);
+          } else {
+            // NB! Make sure to cast this to a string
+            // otherwise, it will cause weird silent failures
+            that.data = `${buffer}`;
+            if (
+              !that.stat ||
+              that.stat.mtimeMs != stats.mtimeMs ||
+              that.stat.size != stats.size
+            ) {
+              that._parsed = false;
+            }
+            that.stat = { mtimeMs: stats.mtimeMs, size: stats.size };
+            resolve(that);
+          }
+        });
       });
     });
   }
 
   parseData(useCache = false) {
     let that = this;
-    // don't debug on blank data, only null|undefined
-    if (this.data === '') {
-      return;
-    }
-    if (!this.data) {
+    // NB: blank data is parsed too, so that a note that has been emptied has no refCandidates
+    if (this.data === undefined || this.data === null) {
       console.debug(`RefCandidate.parseData: no data for ${this.fsPath}`);
       return;
     }
@@ -119,45 +226,78 @@ export class Note {
     }
     // reset the refCandidates Array
     this.refCandidates = [];
+    this._headings = undefined;
+    this._blockIds = undefined;
+    this.frontmatter = parseFrontmatter(this.data);
+    let bodyStartLine = this._bodyStartLine();
 
+    // code, HTML comments, link URLs etc. are blanked out of the lines by the tokenizer,
+    // so nothing in them is a wiki-link or tag
     let lines = this.data.split(/\r?\n/);
-    lines.map((line, lineNum) => {
+    tokenizeMarkdown(this.data).map((ml, lineNum) => {
+      let line = ml.text;
+      let wikiLinks = Array.from(line.matchAll(NoteWorkspace.rxWikiLink()) || [])
+        .map((match) => {
+          let isEmbed = (match.index || 0) > 0 && line[(match.index || 0) - 1] == '!';
+          return RefCandidate.fromMatch(lineNum, match, isEmbed ? RefType.Embed : RefType.WikiLink);
+        })
+        // skip [[wiki-links]] that were partly blanked out, eg, [[`code`]]
+        .filter((wl) => {
+          let r = wl.range;
+          return lines[lineNum].slice(r.start.character, r.end.character) == wl.rawText;
+        });
       Array.from(line.matchAll(NoteWorkspace.rxTagNoAnchors())).map((match) => {
         // console.log('match tag', that.fsPath, lineNum, match);
-        that.refCandidates.push(RefCandidate.fromMatch(lineNum, match, RefType.Tag));
-      });
-      Array.from(line.matchAll(NoteWorkspace.rxWikiLink()) || []).map((match) => {
-        that.refCandidates.push(RefCandidate.fromMatch(lineNum, match, RefType.WikiLink));
+        let tag = RefCandidate.fromMatch(lineNum, match, RefType.Tag);
+        // the #Heading in [[note#Heading]] is not a tag:
+        let inWikiLink = wikiLinks.some(
+          (wl) =>
+            wl.range.start.character <= tag.range.start.character &&
+            tag.range.end.character <= wl.range.end.character
+        );
+        // and frontmatter tags are not #tags (a # there starts a YAML comment)
+        if (!inWikiLink && lineNum >= bodyStartLine) {
+          that.refCandidates.push(tag);
+        }
       });
+      that.refCandidates = that.refCandidates.concat(wikiLinks);
     });
     // console.debug(`parsed ${this.fsPath}. refCandidates:`, this.refCandidates);
     this._parsed = true;
+    // only notes in the NoteParser cache are in the index,
+    // not, eg, a file read just to show it in a hover
+    if (NoteParser._notes[this.fsPath] === this) {
+      NoteParser._index.update(this);
+    }
   }
 
   // NB: assumes this.parseData MUST have been called BEFORE running
-  _rawRangesForWord(ref: Ref | null): Array<RawRange> {
+  _rawRangesForWord(ref: Ref | null, includeNestedTags = false): Array<RawRange> {
     let ranges: Array<RawRange> = [];
     // don't debug on blank data, only null|undefined
     if (this.data === '') {
       return [];
     }
-    if (!this.data || !this.refCandidates) {
+    // a Note restored from the NoteIndexStore has refCandidates, but no data
+    if (!this.isParsed() || !this.refCandidates) {
       console.debug(
-        'rangesForWordInDocumentData called with when !this.data || !this.refCandidates'
+        'rangesForWordInDocumentData called with when !this.isParsed() || !this.refCandidates'
       );
       return [];
     }
     if (!ref) {
       return [];
     }
-    if (![RefType.Tag, RefType.WikiLink].includes(ref.type)) {
+    if (![RefType.Tag, RefType.WikiLink, RefType.Embed].includes(ref.type)) {
       return [];
     }
-    return this.refCandidates.filter((c) => c.matchesContextWord(ref)).map((c) => c.range);
+    return this.refCandidates
+      .filter((c) => c.matchesContextWord(ref, includeNestedTags))
+      .map((c) => c.range);
   }
 
-  vscodeRangesForWord(ref: Ref | null): Array<vscode.Range> {
-    return this._rawRangesForWord(ref).map((r) => {
+  vscodeRangesForWord(ref: Ref | null, includeNestedTags = false): Array<vscode.Range> {
+    return this._rawRangesForWord(ref, includeNestedTags).map((r) => {
       return new vscode.Range(
         new vscode.Position(r.start.line, r.start.character),
         new vscode.Position(r.end.line, r.end.character)
@@ -165,6 +305,188 @@ export class Note {
     });
   }
 
+  // the first line after the frontmatter (if any)
+  _bodyStartLine(): number {
+    return this.frontmatter ? this.frontmatter.endLine + 1 : 0;
+  }
+
+  // the frontmatter `title`, or else the text of the first `# Heading`
+  title(): string | undefined {
+    if (this.frontmatter && this.frontmatter.title) {
+      return this.frontmatter.title;
+    }
+    let h1 = this.headings().find((h) => h.level == 1);
+    return h1 ? h1.text : undefined;
+  }
+
+  // the other names this note can be linked to by, from the frontmatter `aliases`,
+  // plus, for a note named by an id (eg, 202006301230.md), its title
+  aliases(): Array<string> {
+    let aliases = this.frontmatter ? this.frontmatter.aliases : [];
+    let title = NoteWorkspace.isNoteIdFilename(basename(this.fsPath)) ? this.title() : undefined;
+    return title && !aliases.includes(title) ? aliases.concat([title]) : aliases;
+  }
+
+  // the names this note can be mentioned by in the text of other notes:
+  // its title, the words of its filename, and its frontmatter `aliases`
+  // (names shorter than 3 chars would match almost anywhere, so they are left out)
+  mentionNames(): Array<string> {
+    let words = NoteWorkspace.stripExtension(basename(this.fsPath)).replace(/[-_]+/g, ' ');
+    let names: Array<string> = [];
+    [this.title() || '', words]
+      .concat(this.aliases())
+      .map((n) => n.trim())
+      .filter((n) => n.length >= 3)
+      .map((n) => {
+        if (!names.some((m) => m.toLowerCase() == n.toLowerCase())) {
+          names.push(n);
+        }
+      });
+    return names;
+  }
+
+  // the plain text occurrences of any of `names` in this note (case insensitive, whole words),
+  // that are not already in a [[wiki-link]], or in code, the frontmatter etc.
+  // NB: assumes this.data has been read
+  unlinkedMentions(names: Array<string>): Array<RawRange> {
+    let ranges: Array<RawRange> = [];
+    if (!this.data || names.length == 0) {
+      return ranges;
+    }
+    // try the longest names first, eg, 'The Heat Is On' before 'The Heat'
+    let alternatives = names
+      .slice()
+      .sort((a, b) => b.length - a.length)
+      .map((n) => escapeRegExp(n).replace(/\s+/g, '\\s+'))
+      .join('|');
+    let rx = new RegExp(`(^|[^\\w])(${alternatives})(?![\\w])`, 'gi');
+    let bodyStartLine = this._bodyStartLine();
+    tokenizeMarkdown(this.data).map((ml, lineNum) => {
+      if (lineNum < bodyStartLine || ml.inCodeBlock) {
+        return;
+      }
+      let line = ml.text.replace(NoteWorkspace.rxWikiLink(), (wl) => ' '.repeat(wl.length));
+      Array.from(line.matchAll(rx)).map((m) => {
+        let start = (m.index || 0) + m[1].length;
+        ranges.push({
+          start: { line: lineNum, character: start },
+          end: { line: lineNum, character: start + m[2].length },
+        });
+      });
+    });
+    return ranges;
+  }
+
+  // the lines of the paragraph or list item that (0-indexed) `line` is in,
+  // eg, to show the context of a backlink
+  paragraphAt(line: number): string {
+    let lines = this.lines();
+    if (line < 0 || line >= lines.length) {
+      return '';
+    }
+    let isBlank = (l: string) => l.trim() == '';
+    let isHeading = (l: string) => /^\s{0,3}\#{1,6}(\s|$)/.test(l);
+    let startsBlock = (l: string) => isHeading(l) || /^\s*([\-\*\+]|\d+[\.\)])\s/.test(l);
+    if (isBlank(lines[line])) {
+      return '';
+    }
+    if (isHeading(lines[line])) {
+      return lines[line];
+    }
+    let start = line;
+    while (
+      start > 0 &&
+      !startsBlock(lines[start]) &&
+      !isBlank(lines[start - 1]) &&
+      !isHeading(lines[start - 1])
+    ) {
+      start--;
+    }
+    let end = line;
+    while (end + 1 < lines.length && !isBlank(lines[end + 1]) && !startsBlock(lines[end + 1])) {
+      end++;
+    }
+    return lines.slice(start, end + 1).join('\n');
+  }
+
+  // `# Headings` in the note, with the (0-indexed) line each one is on
+  headings(): Array<Heading> {
+    if (this._headings && this.isParsed()) {
+      return this._headings;
+    }
+    let headings: Array<Heading> = [];
+    let bodyStartLine = this._bodyStartLine();
+    let markdownLines = tokenizeMarkdown(this.data || '');
+    this.lines().map((line, lineNum) => {
+      let m = line.match(/^(\#{1,6})[ \t]+(.+?)[ \t\#]*$/);
+      // eg, a # comment in a shell snippet is not a heading
+      if (m && lineNum >= bodyStartLine && !markdownLines[lineNum].inCodeBlock) {
+        headings.push({ text: m[2], level: m[1].length, line: lineNum });
+      }
+    });
+    this._headings = headings;
+    return headings;
+  }
+
+  // `^block-ids` at the ends of lines in the note,
+  // with the (0-indexed) line each one is on
+  blockIds(): Array<BlockId> {
+    if (this._blockIds && this.isParsed()) {
+      return this._blockIds;
+    }
+    let ids: Array<BlockId> = [];
+    let markdownLines = tokenizeMarkdown(this.data || '');
+    this.lines().map((line, lineNum) => {
+      let m = line.match(/(?:^|\s)\^([\w\-]+)\s*$/);
+      if (m && !markdownLines[lineNum].inCodeBlock) {
+        ids.push({ id: m[1], line: lineNum });
+      }
+    });
+    this._blockIds = ids;
+    return ids;
+  }
+
+  // the (0-indexed) line of the `# Heading` or `^block-id` named by the fragment
+  // of a [[note#Heading]] or [[note#^block-id]] wiki-link,
+  // or undefined if the note does not have one
+  lineForFragment(fragment: string): number | undefined {
+    if (fragment.startsWith('^')) {
+      let id = fragment.slice(1);
+      let b = this.blockIds().find((b) => b.id == id);
+      return b ? b.line : undefined;
+    }
+    let n = NoteWorkspace.normalizeHeadingForFuzzyMatch(fragment);
+    let h = this.headings().find((h) => NoteWorkspace.normalizeHeadingForFuzzyMatch(h.text) == n);
+    return h ? h.line : undefined;
+  }
+
+  // The Markdown that a ![[note]] or ![[note#fragment]] embed of this note shows:
+  // - the whole note, without its frontmatter
+  // - for a # Heading, the section it starts (up to the next heading of the same or a higher level)
+  // - for a ^block-id, the paragraph or list item it is in, without the ^block-id
+  // or undefined if the note does not have the Heading or block-id
+  embedText(fragment?: string): string | undefined {
+    let lines = this.lines();
+    if (!fragment) {
+      return lines.slice(this._bodyStartLine()).join('\n');
+    }
+    let line = this.lineForFragment(fragment);
+    if (line === undefined) {
+      return undefined;
+    }
+    if (fragment.startsWith('^')) {
+      return this.paragraphAt(line).replace(/(^|\s+)\^[\w\-]+[ \t]*$/gm, '');
+    }
+    let headings = this.headings();
+    let level = (headings.find((h) => h.line == line) as Heading).level;
+    let next = headings.find((h) => h.line > (line as number) && h.level <= level);
+    return lines
+      .slice(line, next ? next.line : lines.length)
+      .join('\n')
+      .replace(/\s+$/, '');
+  }
+
+  // inline #tags, plus the `tags` from the frontmatter
   tagSet(): Set<string> {
     let _tagSet: Set<string> = new Set();
 
@@ -173,6 +495,9 @@ export class Note {
       .map((rc) => {
         _tagSet.add(rc.rawText);
       });
+    if (this.frontmatter) {
+      this.frontmatter.tags.map((t) => _tagSet.add(`#${t}`));
+    }
     return _tagSet;
   }
 }
@@ -184,26 +509,152 @@ interface Dictionary<T> {
 export class NoteParser {
   // mapping of file fsPaths to Note objects
   static _notes: Dictionary<Note> = {};
+  // inverted index of the links and tags in _notes, kept up to date as they are parsed
+  static _index: NoteIndex = new NoteIndex();
+  // resolves once every note in the workspace has been parsed (see hydrateCache)
+  static _hydrated: Promise<Array<Note>> | undefined;
+  // how many notes to read at a time when searching their text
+  static READ_BATCH_SIZE = 50;
+
+  // wait for the index to be complete before querying it
+  static async ready() {
+    if (NoteParser._hydrated) {
+      await NoteParser._hydrated;
+    }
+  }
+
+  // rebuild the index from the cached Notes,
+  // eg, when a setting that affects how wiki-links are normalized changes
+  static reindex() {
+    NoteParser._index.clear();
+    Object.values(NoteParser._notes).map((note) => NoteParser._index.update(note));
+  }
+
+  // drop every cached Note and parse the workspace again,
+  // eg, when the settings for which files are notes change
+  static rebuildCache(): Promise<Array<Note>> {
+    NoteParser._notes = {};
+    NoteParser._index.clear();
+    return NoteParser.hydrateCache();
+  }
 
   static async distinctTags(): Promise<Array<string>> {
-    let useCache = true;
-    let _tags: Array<string> = [];
-    await NoteParser.parsedFilesForWorkspace(useCache).then((pfs) => {
-      pfs.map((note) => {
-        _tags = _tags.concat(Array.from(note.tagSet()));
+    await NoteParser.ready();
+    return NoteParser._index.distinctTags();
+  }
+
+  // mapping of each distinct #tag to the Notes that use it
+  static async notesByTag(): Promise<Dictionary<Array<Note>>> {
+    await NoteParser.ready();
+    let byTag: Dictionary<Array<Note>> = {};
+    NoteParser._index.distinctTags().map((tag) => {
+      byTag[tag] = NoteParser._index
+        .notesForTag(tag)
+        .map((fsPath) => NoteParser._notes[fsPath])
+        .filter((note) => note);
+    });
+    return byTag;
+  }
+
+  // backlinks to the note at `fsPath` are the [[wiki-links]] that resolve to it,
+  // relative to the note each link is in (so that in `relativePaths` mode,
+  // a link to `a/note.md` is not a backlink to `b/note.md`).
+  // The index is keyed by note name, so look up the links to its filename
+  // and to each of its frontmatter `aliases`, then keep those that resolve to `fsPath`.
+  static async searchBacklinksFor(fsPath: string): Promise<vscode.Location[]> {
+    await NoteParser.ready();
+    return NoteParser._backlinksFor(fsPath).map((ir) =>
+      NoteParser._location(ir.fsPath, ir.refCandidate.range)
+    );
+  }
+
+  static _backlinksFor(fsPath: string): Array<IndexedRef> {
+    let backlinks: Array<IndexedRef> = [];
+    // a link can match both the filename and an alias, only count it once
+    let seen: Set<RefCandidate> = new Set();
+    [basename(fsPath)].concat(this.aliasesFor(fsPath)).map((word) => {
+      this._index.linkRefs(word).map((ir) => {
+        if (seen.has(ir.refCandidate)) {
+          return;
+        }
+        seen.add(ir.refCandidate);
+        if (this.resolveWikiLink(ir.refCandidate.rawText, ir.fsPath).includes(fsPath)) {
+          backlinks.push(ir);
+        }
       });
     });
-    return Array.from(new Set(_tags));
+    return backlinks;
   }
 
-  static async searchBacklinksFor(fileBasename: string): Promise<vscode.Location[]> {
-    let ref: Ref = {
-      type: RefType.WikiLink,
-      hasExtension: true,
-      word: fileBasename,
-      range: undefined,
-    };
-    return this.search(ref);
+  // plain text mentions of the note at `fsPath` in the other notes that can link to it,
+  // see Note.unlinkedMentions.
+  // (notes restored from the NoteIndexStore are read here, the first time)
+  static async searchUnlinkedMentionsFor(fsPath: string): Promise<vscode.Location[]> {
+    await NoteParser.ready();
+    let names = (await NoteParser.readNote(fsPath)).mentionNames();
+    let locations: vscode.Location[] = [];
+    let fsPaths = Object.keys(this._notes).filter(
+      (p) => p != fsPath && NoteWorkspace.canLinkAcross(p, fsPath)
+    );
+    // read the notes in batches, rather than 1 at a time or every note at once
+    for (let i = 0; i < fsPaths.length; i += NoteParser.READ_BATCH_SIZE) {
+      let batch = fsPaths.slice(i, i + NoteParser.READ_BATCH_SIZE);
+      let notes = await Promise.all(
+        batch.map((p) => NoteParser.readNote(p).catch(() => undefined))
+      );
+      notes.map((note, j) => {
+        (note ? note.unlinkedMentions(names) : []).map((r) => {
+          locations.push(NoteParser._location(batch[j], r));
+        });
+      });
+    }
+    return locations;
+  }
+
+  // the [[wiki-links]] (and ![[embeds]]) in `note`, grouped by the file(s) they resolve to
+  // (or when no file is found, by their target), in the order they first appear
+  static outgoingLinks(note: Note): Array<OutgoingLink> {
+    let links: Map<string, OutgoingLink> = new Map();
+    note.refCandidates
+      .filter((rc) => isWikiLinkType(rc.refType))
+      .map((rc) => {
+        let target = NoteWorkspace.wikiLinkTarget(rc.rawText);
+        let fsPaths = this.resolveWikiLink(rc.rawText, note.fsPath);
+        // Go to Definition will still open a non-note file at a relative path,
+        // eg, [[../src/extension.ts]] (same as NoteDiagnostics)
+        let relativePath = resolve(dirname(note.fsPath), target);
+        if (fsPaths.length == 0 && existsSync(relativePath)) {
+          fsPaths = [relativePath];
+        }
+        let status = LinkStatus.Exists;
+        if (fsPaths.length == 0) {
+          status = LinkStatus.Missing;
+        } else if (fsPaths.length > 1) {
+          status = LinkStatus.Ambiguous;
+        }
+        let key =
+          status == LinkStatus.Missing ? NoteIndex.linkKey(target) : fsPaths.sort().join('\n');
+        let link = links.get(key);
+        if (!link) {
+          link = { target: target, status: status, fsPaths: fsPaths, refCandidates: [] };
+          links.set(key, link);
+        }
+        link.refCandidates.push(rc);
+      });
+    return Array.from(links.values());
+  }
+
+  // the fsPaths of the notes that a [[wiki-link]] in the note at `fromFsPath` points at
+  // (more than 1 if it is ambiguous),
+  // of the indexed notes with the name it points to, rather than every note
+  static resolveWikiLink(linkText: string, fromFsPath: string): Array<string> {
+    let names = this._index.names;
+    return NoteWorkspace.noteFsPathsForWikiLink(
+      linkText,
+      fromFsPath,
+      names.candidates(linkText),
+      (p) => names.aliasesFor(p)
+    );
   }
 
   static parsedFileFor(fsPath: string): Note {
@@ -215,58 +666,99 @@ export class NoteParser {
     return note;
   }
 
-  static async parsedFilesForWorkspace(useCache = false): Promise<Array<Note>> {
-    let files = await NoteWorkspace.noteFiles();
-    let parsedFiles = files.map((f) => NoteParser.parsedFileFor(f.fsPath));
-    return (await Promise.all(parsedFiles.map((note) => note.readFile(useCache)))).map((note) => {
-      note.parseData(useCache);
-      return note;
-    });
+  // the frontmatter aliases of the (cached) note at fsPath
+  static aliasesFor(fsPath: string): Array<string> {
+    let note = NoteParser._notes[fsPath];
+    return note ? note.aliases() : [];
+  }
+
+  // read and parse the file at fsPath, using the cached Note if there is one,
+  // but without adding it to the cache (since it may not be a note in the workspace)
+  // (a Note restored from the NoteIndexStore is read here, the first time its data is needed)
+  static async readNote(fsPath: string): Promise<Note> {
+    let useCache = true;
+    let note = await (NoteParser._notes[fsPath] || new Note(fsPath)).readFile(useCache);
+    note.parseData(useCache);
+    return note;
   }
 
   // call this when we know a file has changed contents to update the cache
-  static updateCacheFor(fsPath: string) {
+  static updateCacheFor(fsPath: string): Promise<Note> {
     let that = this;
     let note = NoteParser.parsedFileFor(fsPath);
-    note.readFile(false).then((_pf) => {
+    return note.readFile(false).then((_pf) => {
       _pf.parseData(false);
       // remember to set in the master index:
       that._notes[fsPath] = _pf;
+      return _pf;
     });
   }
 
   // call this when we know a file has been deleted
   static clearCacheFor(fsPath: string) {
     delete NoteParser._notes[fsPath];
+    NoteParser._index.remove(fsPath);
   }
 
-  static async hydrateCache(): Promise<Array<Note>> {
-    let useCache = false;
-    let parsedFiles = await NoteParser.parsedFilesForWorkspace(useCache);
-    return parsedFiles;
+  // `persisted` are the Notes saved by the NoteIndexStore in a previous session:
+  // those whose file has not changed since (same mtime and size) are restored as is,
+  // and only the rest are read and parsed
+  static hydrateCache(persisted: Dictionary<SerializedNote> = {}): Promise<Array<Note>> {
+    NoteParser._hydrated = NoteParser._hydrateCache(persisted);
+    return NoteParser._hydrated;
   }
 
-  static async search(ref: Ref): Promise<vscode.Location[]> {
-    let useCache = true;
+  static async _hydrateCache(persisted: Dictionary<SerializedNote>): Promise<Array<Note>> {
+    let files = await NoteWorkspace.noteFiles();
+    let notes = await Promise.all(
+      files.map(async (f): Promise<Note | undefined> => {
+        let s = persisted[f.fsPath];
+        if (s) {
+          let stats = await fsp.stat(f.fsPath).catch(() => undefined);
+          if (stats && stats.mtimeMs == s.stat.mtimeMs && stats.size == s.stat.size) {
+            let restored = Note.deserialize(f.fsPath, s);
+            NoteParser._notes[f.fsPath] = restored;
+            NoteParser._index.update(restored);
+            return restored;
+          }
+        }
+        let note = NoteParser.parsedFileFor(f.fsPath);
+        try {
+          await note.readFile(false);
+        } catch (e) {
+          // eg, deleted since it was found, or unreadable:
+          // leave it out, rather than fail the whole index
+          NoteParser.clearCacheFor(f.fsPath);
+          return undefined;
+        }
+        note.parseData(false);
+        return note;
+      })
+    );
+    return notes.filter((note): note is Note => note !== undefined);
+  }
 
-    let locations: vscode.Location[] = [];
-    let query: string;
+  // with includeNestedTags, searching for #project also finds #project/alpha/design
+  static async search(ref: Ref, includeNestedTags = false): Promise<vscode.Location[]> {
+    await NoteParser.ready();
+    return NoteParser._search(ref, includeNestedTags).map((ir) =>
+      NoteParser._location(ir.fsPath, ir.refCandidate.range)
+    );
+  }
+
+  static _location(fsPath: string, r: RawRange): vscode.Location {
+    return new vscode.Location(
+      vscode.Uri.file(fsPath),
+      new vscode.Range(r.start.line, r.start.character, r.end.line, r.end.character)
+    );
+  }
+
+  static _search(ref: Ref, includeNestedTags = false): Array<IndexedRef> {
     if (ref.type == RefType.Tag) {
-      query = `#${ref.word}`;
-    } else if ((ref.type = RefType.WikiLink)) {
-      query = `[[${basename(ref.word)}]]`;
-    } else {
-      return [];
+      return NoteParser._index.tagRefs(`#${ref.word}`, includeNestedTags);
+    } else if (isWikiLinkType(ref.type) && ref.word) {
+      return NoteParser._index.linkRefs(ref.word);
     }
-    let parsedFiles = await NoteParser.parsedFilesForWorkspace(useCache);
-    parsedFiles.map((note, i) => {
-      let ranges = note.vscodeRangesForWord(ref);
-      ranges.map((r) => {
-        let loc = new vscode.Location(vscode.Uri.file(note.fsPath), r);
-        locations.push(loc);
-      });
-    });
-
-    return locations;
+    return [];
   }
 }
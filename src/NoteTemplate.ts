@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import { basename, join, relative, resolve } from 'path';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { NoteWorkspace } from './NoteWorkspace';
+import { formatDate } from './utils';
+
+export type TemplateContext = {
+  title: string;
+  date: Date;
+  // the fsPath of the new note
+  fsPath: string;
+  // the fsPath of the note with the [[wiki-link]] the new note is created from
+  sourceFsPath?: string;
+};
+
+// Templates for new notes: notes in the templatesFolder, in which these variables are replaced:
+// - {{title}}: the title of the new note
+// - {{slug}}: the filename of the new note, without the extension
+// - {{date}} or {{date:FORMAT}}: today, eg, {{date:dddd, MMMM D}} (see formatDate)
+// - {{source}}: what a [[wiki-link]] to the note the new note was created from would point to
+// - {{cursor}}: where the cursor goes when the new note is opened
+export class NoteTemplate {
+  static CURSOR = '{{cursor}}';
+  // the template used when there is no template for a new note
+  static DEFAULT = `# {{title}}\n\n${NoteTemplate.CURSOR}`;
+
+  // the templates folder of the workspace folder at `folderFsPath`
+  static templatesFolder(folderFsPath: string): string {
+    return resolve(folderFsPath, NoteWorkspace.cfg(folderFsPath).templatesFolder);
+  }
+
+  // the names of the templates in the templatesFolder, eg, ['meeting.md', 'person.md']
+  static templateNames(folderFsPath: string): Array<string> {
+    let folder = NoteTemplate.templatesFolder(folderFsPath);
+    if (!existsSync(folder)) {
+      return [];
+    }
+    let rx = NoteWorkspace.rxFileExtensions();
+    return readdirSync(folder)
+      .filter((f) => f.match(rx))
+      .sort();
+  }
+
+  // the name of the template for a new note in `dir`, relative to its workspace folder:
+  // that of the closest folder in `folderTemplates`, or else `defaultTemplate`
+  static _templateNameFor(
+    dir: string,
+    folderTemplates: Record<string, string>,
+    defaultTemplate: string
+  ): string {
+    let parts = dir.split(/[\\/]/).filter((p) => p && p != '.');
+    for (let i = parts.length; i > 0; i--) {
+      let name = folderTemplates[parts.slice(0, i).join('/')];
+      if (name) {
+        return name;
+      }
+    }
+    return defaultTemplate;
+  }
+
+  // the name of the template for a new note at `fsPath`,
+  // in the workspace folder at `folderFsPath`, or '' when there is none
+  static templateNameFor(fsPath: string, folderFsPath: string): string {
+    let cfg = NoteWorkspace.cfg(folderFsPath);
+    let dir = relative(folderFsPath, resolve(fsPath, '..'));
+    return NoteTemplate._templateNameFor(dir, cfg.folderTemplates || {}, cfg.defaultTemplate);
+  }
+
+  // The contents of the template `name`: a file in the templatesFolder,
+  // or else, the path of a file relative to the workspace folder.
+  // The DEFAULT template if `name` is '', or there is no such file.
+  static read(folderFsPath: string, name: string): string {
+    if (!name) {
+      return NoteTemplate.DEFAULT;
+    }
+    let paths = [
+      join(NoteTemplate.templatesFolder(folderFsPath), name),
+      resolve(folderFsPath, name),
+    ];
+    let fsPath = paths.find((p) => existsSync(p));
+    if (!fsPath) {
+      vscode.window.showWarningMessage(`Template not found: ${name}`);
+      return NoteTemplate.DEFAULT;
+    }
+    return readFileSync(fsPath).toString();
+  }
+
+  // `template` with its variables replaced, except for {{cursor}}
+  static render(template: string, context: TemplateContext): string {
+    let source = context.sourceFsPath
+      ? NoteWorkspace.stripExtension(
+        NoteWorkspace.wikiLinkTargetFor(context.fsPath, context.sourceFsPath)
+      )
+      : '';
+    // NB: replace with functions, so that eg, a `$&` in the title is not a replacement pattern
+    return template
+      .replace(/\{\{title\}\}/g, () => context.title)
+      .replace(/\{\{slug\}\}/g, () => NoteWorkspace.stripExtension(basename(context.fsPath)))
+      .replace(/\{\{source\}\}/g, () => source)
+      .replace(/\{\{date(?::([^}]*))?\}\}/g, (_, format?: string) =>
+        formatDate(context.date, format || 'YYYY-MM-DD')
+      );
+  }
+
+  // split rendered `contents` into the text to write, and the offset of the {{cursor}} in it
+  static cursor(contents: string): { text: string; offset: number | undefined } {
+    let offset = contents.indexOf(NoteTemplate.CURSOR);
+    if (offset < 0) {
+      return { text: contents, offset: undefined };
+    }
+    return { text: contents.split(NoteTemplate.CURSOR).join(''), offset: offset };
+  }
+
+  // Let the user pick the template for a new note at `fsPath`,
+  // with the one that would be used anyway first.
+  // undefined if they cancel.
+  static async pick(fsPath: string, folderFsPath: string): Promise<string | undefined> {
+    let names = NoteTemplate.templateNames(folderFsPath);
+    let current = NoteTemplate.templateNameFor(fsPath, folderFsPath);
+    if (names.length == 0) {
+      return current;
+    }
+    let item = (name: string, description: string) => ({
+      label: name ? NoteWorkspace.stripExtension(name) : 'Default',
+      description: description,
+      name: name,
+    });
+    let items = [item(current, '(default)')];
+    if (current) {
+      items.push(item('', 'just the title'));
+    }
+    names.filter((n) => n != current).map((n) => items.push(item(n, n)));
+    let picked = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Template for the new note',
+    });
+    return picked?.name;
+  }
+}
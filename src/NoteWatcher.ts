@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import { sep } from 'path';
+import { NoteParser } from './NoteParser';
+import { NoteWorkspace } from './NoteWorkspace';
+import { debounce } from './utils';
+
+export enum NoteChange {
+  Changed = 'changed', // includes created
+  Deleted = 'deleted',
+}
+
+// Keeps the NoteParser cache in sync with the note files in the workspace,
+// whether they are edited in VS Code, or created, deleted or renamed outside of it
+// (eg, by a `git pull` or a sync tool).
+//
+// Changes are queued and applied in a (debounced) batch,
+// after which `onDidChangeIndex` fires, so that diagnostics, views etc.
+// can update once per burst of changes instead of once per file.
+export class NoteWatcher {
+  static _onDidChangeIndex: vscode.EventEmitter<void> | undefined;
+  // fsPath => the latest change to it since the last flush
+  static _pending: Map<string, NoteChange> = new Map();
+
+  static emitter(): vscode.EventEmitter<void> {
+    if (!this._onDidChangeIndex) {
+      this._onDidChangeIndex = new vscode.EventEmitter<void>();
+    }
+    return this._onDidChangeIndex;
+  }
+
+  static get onDidChangeIndex(): vscode.Event<void> {
+    return this.emitter().event;
+  }
+
+  static _watchers: vscode.Disposable | undefined;
+
+  // Watch the note files, filtered with NoteWorkspace.isNoteFile for the include / exclude
+  // settings, and for deletes only, every file, since a deleted directory gets
+  // no events for the notes in it.
+  static watch(): vscode.Disposable {
+    NoteWatcher.rewatch();
+    return vscode.Disposable.from(
+      new vscode.Disposable(() => NoteWatcher._watchers?.dispose()),
+      this.emitter()
+    );
+  }
+
+  // call this when the noteFileExtensions change, since they are in the glob that is watched
+  static rewatch() {
+    NoteWatcher._watchers?.dispose();
+    let notes = vscode.workspace.createFileSystemWatcher(NoteWorkspace.noteFilesGlob());
+    let deletes = vscode.workspace.createFileSystemWatcher('**/*', true, true, false);
+    let changed = (uri: vscode.Uri) => {
+      if (NoteWorkspace.isNoteFile(uri)) {
+        NoteWatcher.queue(uri.fsPath, NoteChange.Changed);
+      }
+    };
+    NoteWatcher._watchers = vscode.Disposable.from(
+      notes,
+      deletes,
+      notes.onDidCreate(changed),
+      notes.onDidChange(changed),
+      deletes.onDidDelete((uri) => NoteWatcher.deleted(uri.fsPath))
+    );
+  }
+
+  // `fsPath` is a deleted note, or a deleted directory of notes
+  static deleted(fsPath: string) {
+    Object.keys(NoteParser._notes)
+      .filter((p) => p == fsPath || p.startsWith(`${fsPath}${sep}`))
+      .map((p) => NoteWatcher.queue(p, NoteChange.Deleted));
+  }
+
+  static queue(fsPath: string, change: NoteChange) {
+    this._pending.set(fsPath, change);
+    this.flushSoon();
+  }
+
+  static flushSoon = debounce(() => NoteWatcher.flush(), 300);
+
+  // the last flush, which the next one waits for,
+  // so that a batch is never applied over an older one that is still being read
+  // (the changes queued in the meantime are applied together, after it)
+  static _flushed: Promise<void> = Promise.resolve();
+
+  static flush(): Promise<void> {
+    let apply = async () => {
+      let pending = this._pending;
+      if (pending.size == 0) {
+        return;
+      }
+      this._pending = new Map();
+      await this.applyChanges(pending);
+      this.fireIndexChanged();
+    };
+    this._flushed = this._flushed.then(apply, apply);
+    return this._flushed;
+  }
+
+  // call this after (re-)building the whole index, eg, NoteParser.hydrateCache
+  static fireIndexChanged() {
+    this.emitter().fire();
+  }
+
+  static async applyChanges(changes: Map<string, NoteChange>) {
+    let updates: Array<Promise<unknown>> = [];
+    changes.forEach((change, fsPath) => {
+      if (change == NoteChange.Deleted) {
+        NoteParser.clearCacheFor(fsPath);
+      } else {
+        // the file may already be gone again by the time we read it
+        let update = NoteParser.updateCacheFor(fsPath);
+        updates.push(update.catch(() => NoteParser.clearCacheFor(fsPath)));
+      }
+    });
+    await Promise.all(updates);
+  }
+}
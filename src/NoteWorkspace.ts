@@ -1,6 +1,17 @@
 import * as vscode from 'vscode';
-import { basename, dirname, join, normalize, relative, resolve } from 'path';
-import { existsSync, readFile, writeFileSync } from 'fs';
+import {
+  basename,
+  dirname,
+  extname,
+  isAbsolute,
+  join,
+  normalize,
+  relative,
+  resolve,
+  sep,
+} from 'path';
+import { existsSync, readdirSync, readFile } from 'fs';
+import { escapeRegExp, formatDate, globToRegExp } from './utils';
 
 export const foo = () => {
   return 1;
@@ -23,47 +34,139 @@ enum SlugifyCharacter {
   none = 'NONE',
 }
 
+enum NewNoteLocation {
+  sameDirectory = 'sameDirectory',
+  workspaceRoot = 'workspaceRoot',
+  inbox = 'inbox',
+  prompt = 'prompt',
+}
+enum NewNoteFilenameScheme {
+  slug = 'slug',
+  id = 'id',
+  idSlug = 'idSlug',
+}
+
 type Config = {
+  allowLinksAcrossWorkspaceFolders: boolean;
   createNoteOnGoToDefinitionWhenMissing: boolean;
+  dailyNoteFilenameFormat: string;
+  dailyNoteFolder: string;
+  dailyNoteTemplate: string;
   defaultFileExtension: string;
+  defaultTemplate: string;
+  diagnoseOrphanNotes: boolean;
+  diagnosticsEnabled: boolean;
+  excludeGlobs: Array<string>;
+  folderTemplates: Record<string, string>;
+  hoverPreviewLines: number;
+  inboxFolder: string;
+  includeGlobs: Array<string>;
+  includeNestedTagsInSearch: boolean;
+  missingNoteLocation: NewNoteLocation;
+  monthlyNoteFilenameFormat: string;
+  monthlyNoteFolder: string;
+  monthlyNoteTemplate: string;
+  newNoteFilenameScheme: NewNoteFilenameScheme;
+  newNoteLocation: NewNoteLocation;
   noteCompletionConvention: NoteCompletionConvention;
+  noteFileExtensions: Array<string>;
   slugifyCharacter: SlugifyCharacter;
+  templatesFolder: string;
+  weeklyNoteFilenameFormat: string;
+  weeklyNoteFolder: string;
+  weeklyNoteTemplate: string;
   workspaceFilenameConvention: WorkspaceFilenameConvention;
 };
 
 // This class contains:
 // 1. an interface to some of the basic user configurable settings or this extension
-// 2. command for creating a New Note
+// 2. where new notes go, and what they are named (the New Note command is in NewNote.ts)
 // 3. some other bootstrapping
 export class NoteWorkspace {
   // Defining these as strings now, and then compiling them with accessor methods.
   // This will allow us to potentially expose these as settings.
-  static _rxTagNoAnchors = '\\#[\\w\\-\\_]+'; // used to match tags that appear within lines
-  static _rxTagWithAnchors = '^\\#[\\w\\-\\_]+$'; // used to match entire words
+  // tags can be nested with /, eg, #project/alpha/design
+  static _rxTagNoAnchors = '\\#[\\w\\-\\_]+(?:\\/[\\w\\-\\_]+)*'; // used to match tags that appear within lines
+  static _rxTagWithAnchors = '^\\#[\\w\\-\\_]+(?:\\/[\\w\\-\\_]+)*$'; // used to match entire words
+  static _rxTagPartial = '\\#[\\w\\-\\_]+(?:\\/[\\w\\-\\_]*)*'; // used to match a tag while it is being typed, eg, #project/
   static _rxWikiLink = '\\[\\[[^\\]]+\\]\\]'; // [[wiki-link-regex]]
   static _rxMarkdownWordPattern = '([\\_\\w\\#\\.\\/\\\\]+)'; // had to add [".", "/", "\"] to get relative path completion working and ["#"] to get tag completion working
-  static _rxFileExtensions = '\\.(md|markdown|mdx|fountain)$';
+  static _defaultNoteFileExtensions = ['md', 'markdown', 'mdx', 'fountain'];
+  static _defaultExcludeGlobs = ['**/node_modules/**', '**/.git/**'];
   static _defaultFileExtension = 'md';
   static SLUGIFY_NONE = 'NONE';
   static _defaultSlugifyChar = '-';
   static _slugifyChar = '-';
   static DEFAULT_CONFIG = {
+    allowLinksAcrossWorkspaceFolders: true,
     createNoteOnGoToDefinitionWhenMissing: true,
+    dailyNoteFilenameFormat: 'YYYY-MM-DD',
+    dailyNoteFolder: '',
+    dailyNoteTemplate: '',
     defaultFileExtension: NoteWorkspace._defaultFileExtension,
+    defaultTemplate: '',
+    diagnoseOrphanNotes: false,
+    diagnosticsEnabled: true,
+    excludeGlobs: NoteWorkspace._defaultExcludeGlobs,
+    folderTemplates: {},
+    hoverPreviewLines: 10,
+    inboxFolder: 'inbox',
+    includeGlobs: [],
+    includeNestedTagsInSearch: true,
+    missingNoteLocation: NewNoteLocation.sameDirectory,
+    monthlyNoteFilenameFormat: 'YYYY-MM',
+    monthlyNoteFolder: '',
+    monthlyNoteTemplate: '',
+    newNoteFilenameScheme: NewNoteFilenameScheme.slug,
+    newNoteLocation: NewNoteLocation.workspaceRoot,
     noteCompletionConvention: NoteCompletionConvention.rawFilename,
+    noteFileExtensions: NoteWorkspace._defaultNoteFileExtensions,
     slugifyCharacter: SlugifyCharacter.dash,
+    templatesFolder: '.templates',
+    weeklyNoteFilenameFormat: 'GGGG-[W]WW',
+    weeklyNoteFolder: '',
+    weeklyNoteTemplate: '',
     workspaceFilenameConvention: WorkspaceFilenameConvention.uniqueFilenames,
   };
 
-  static cfg(): Config {
-    let c = vscode.workspace.getConfiguration('vscodeMarkdownNotes');
+  // Pass the fsPath of a note to get the settings for the workspace folder it is in
+  // (eg, each folder of a multi-root workspace can have its own workspaceFilenameConvention).
+  static cfg(fsPath?: string): Config {
+    let c = vscode.workspace.getConfiguration(
+      'vscodeMarkdownNotes',
+      fsPath ? vscode.Uri.file(fsPath) : undefined
+    );
     return {
+      allowLinksAcrossWorkspaceFolders: c.get('allowLinksAcrossWorkspaceFolders') as boolean,
       createNoteOnGoToDefinitionWhenMissing: c.get(
         'createNoteOnGoToDefinitionWhenMissing'
       ) as boolean,
+      dailyNoteFilenameFormat: c.get('dailyNoteFilenameFormat') as string,
+      dailyNoteFolder: c.get('dailyNoteFolder') as string,
+      dailyNoteTemplate: c.get('dailyNoteTemplate') as string,
       defaultFileExtension: c.get('defaultFileExtension') as string,
+      defaultTemplate: c.get('defaultTemplate') as string,
+      diagnoseOrphanNotes: c.get('diagnoseOrphanNotes') as boolean,
+      diagnosticsEnabled: c.get('diagnosticsEnabled') as boolean,
+      excludeGlobs: c.get('excludeGlobs') as Array<string>,
+      folderTemplates: c.get('folderTemplates') as Record<string, string>,
+      hoverPreviewLines: c.get('hoverPreviewLines') as number,
+      inboxFolder: c.get('inboxFolder') as string,
+      includeGlobs: c.get('includeGlobs') as Array<string>,
+      includeNestedTagsInSearch: c.get('includeNestedTagsInSearch') as boolean,
+      missingNoteLocation: c.get('missingNoteLocation') as NewNoteLocation,
+      monthlyNoteFilenameFormat: c.get('monthlyNoteFilenameFormat') as string,
+      monthlyNoteFolder: c.get('monthlyNoteFolder') as string,
+      monthlyNoteTemplate: c.get('monthlyNoteTemplate') as string,
+      newNoteFilenameScheme: c.get('newNoteFilenameScheme') as NewNoteFilenameScheme,
+      newNoteLocation: c.get('newNoteLocation') as NewNoteLocation,
       noteCompletionConvention: c.get('noteCompletionConvention') as NoteCompletionConvention,
+      noteFileExtensions: c.get('noteFileExtensions') as Array<string>,
       slugifyCharacter: c.get('slugifyCharacter') as SlugifyCharacter,
+      templatesFolder: c.get('templatesFolder') as string,
+      weeklyNoteFilenameFormat: c.get('weeklyNoteFilenameFormat') as string,
+      weeklyNoteFolder: c.get('weeklyNoteFolder') as string,
+      weeklyNoteTemplate: c.get('weeklyNoteTemplate') as string,
       workspaceFilenameConvention: c.get(
         'workspaceFilenameConvention'
       ) as WorkspaceFilenameConvention,
@@ -88,6 +191,10 @@ export class NoteWorkspace {
     // return /^\#[\w\-\_]+$/i; // used to match entire words
     return new RegExp(this._rxTagWithAnchors, 'gi');
   }
+  static rxTagPartial(): RegExp {
+    // NB: MUST have g flag to match multiple words per line
+    return new RegExp(this._rxTagPartial, 'gi');
+  }
   static rxWikiLink(): RegExp {
     // NB: MUST have g flag to match multiple words per line
     // return /\[\[[\w\.\-\_\/\\]+/i; // [[wiki-link-regex
@@ -97,27 +204,115 @@ export class NoteWorkspace {
     // return /([\#\.\/\\\w_]+)/; // had to add [".", "/", "\"] to get relative path completion working and ["#"] to get tag completion working
     return new RegExp(this._rxMarkdownWordPattern);
   }
+  // The single source of truth for which files are notes:
+  // the `noteFileExtensions`, `includeGlobs` and `excludeGlobs` settings, and `files.exclude`
+
+  // without the leading ., eg, ['md', 'markdown']
+  static noteFileExtensions(): Array<string> {
+    let extensions = (this.cfg().noteFileExtensions || [])
+      .map((e) => e.trim().replace(/^\.+/, ''))
+      .filter((e) => e != '');
+    return extensions.length > 0 ? extensions : this._defaultNoteFileExtensions;
+  }
+
   static rxFileExtensions(): RegExp {
-    // return noteName.replace(/\.(md|markdown|mdx|fountain)$/i, '');
-    return new RegExp(this._rxFileExtensions, 'i');
+    // eg, /\.(md|markdown)$/i
+    let extensions = this.noteFileExtensions().map(escapeRegExp);
+    return new RegExp(`\\.(${extensions.join('|')})$`, 'i');
+  }
+
+  // eg, **/*.{md,markdown}
+  static noteFilesGlob(): string {
+    let extensions = this.noteFileExtensions();
+    return extensions.length == 1 ? `**/*.${extensions[0]}` : `**/*.{${extensions.join(',')}}`;
+  }
+
+  static includeGlobs(): Array<string> {
+    return this.cfg().includeGlobs || [];
+  }
+
+  // the `excludeGlobs` setting, plus the patterns that are on in `files.exclude`,
+  // plus the templatesFolder (templates are not notes)
+  static excludeGlobs(): Array<string> {
+    let filesExclude = vscode.workspace.getConfiguration('files').get('exclude') as
+      | Record<string, boolean>
+      | undefined;
+    let fromFilesExclude = Object.keys(filesExclude || {}).filter(
+      (k) => (filesExclude as Record<string, boolean>)[k] === true
+    );
+    let templatesFolder = (this.cfg().templatesFolder || '')
+      .replace(/\\/g, '/')
+      .replace(/^\.\/|\/+$/g, '');
+    return (this.cfg().excludeGlobs || [])
+      .concat(fromFilesExclude)
+      .concat(templatesFolder ? [templatesFolder] : []);
+  }
+
+  // `relativePath` is the path of the file relative to its workspace folder, with / separators.
+  // An exclude pattern also excludes everything in a directory it matches, eg, **/.git
+  static _isNoteFile(
+    relativePath: string,
+    rxFileExtensions: RegExp,
+    includeGlobs: Array<string>,
+    excludeGlobs: Array<string>
+  ): boolean {
+    if (!relativePath.match(rxFileExtensions)) {
+      return false;
+    }
+    if (includeGlobs.length > 0 && !includeGlobs.some((g) => globToRegExp(g).test(relativePath))) {
+      return false;
+    }
+    let parts = relativePath.split('/');
+    let prefixes = parts.map((_, i) => parts.slice(0, i + 1).join('/'));
+    return !excludeGlobs.some((g) => {
+      let rx = globToRegExp(g);
+      return prefixes.some((p) => rx.test(p));
+    });
+  }
+
+  static isNoteFile(uri: vscode.Uri): boolean {
+    if (uri.scheme != 'file') {
+      return false;
+    }
+    let relativePath = vscode.workspace.asRelativePath(uri, false).replace(/\\/g, '/');
+    return this._isNoteFile(
+      relativePath,
+      this.rxFileExtensions(),
+      this.includeGlobs(),
+      this.excludeGlobs()
+    );
   }
 
   static wikiLinkCompletionForConvention(
     uri: vscode.Uri,
     fromDocument: vscode.TextDocument
   ): string {
-    if (this.useUniqueFilenames()) {
-      let filename = basename(uri.fsPath);
-      let c = this.cfg().noteCompletionConvention;
+    return this.wikiLinkTargetFor(fromDocument.uri.fsPath, uri.fsPath);
+  }
+
+  // the target of a [[wiki-link]] in the note at `fromFsPath` to the note at `toFsPath`:
+  // the filename in the noteCompletionConvention, or in `relativePaths` mode, the relative path
+  static wikiLinkTargetFor(fromFsPath: string, toFsPath: string): string {
+    if (this.useUniqueFilenames(fromFsPath)) {
+      let filename = basename(toFsPath);
+      let c = this.cfg(fromFsPath).noteCompletionConvention;
       return this._wikiLinkCompletionForConvention(c, filename);
     } else {
-      let toPath = uri.fsPath;
-      let fromDir = dirname(fromDocument.uri.fsPath.toString());
-      let rel = normalize(relative(fromDir, toPath));
+      let fromDir = dirname(fromFsPath);
+      let rel = normalize(relative(fromDir, toFsPath));
       return rel;
     }
   }
 
+  // the [[wiki-link]] to replace a plain text `mention` of the note at `toFsPath` with,
+  // labelled with the mention if it reads differently from the link,
+  // eg, `The Heat` => `[[the-heat.md|The Heat]]`, but `the heat` => `[[the heat]]` (toSpaces)
+  static wikiLinkForMention(mention: string, fromFsPath: string, toFsPath: string): string {
+    let target = this.wikiLinkTargetFor(fromFsPath, toFsPath);
+    let sameText = this.stripExtension(basename(target)) == mention;
+    return sameText ? `[[${target}]]` : `[[${target}|${mention}]]`;
+  }
+
   static _wikiLinkCompletionForConvention(convention: string, filename: string): string {
     if (convention == 'toSpaces') {
       return this.stripExtension(filename).replace(/[-_]+/g, ' ');
@@ -128,22 +323,230 @@ export class NoteWorkspace {
     }
   }
 
-  static useUniqueFilenames(): boolean {
+  // Split the text of a [[target#fragment|label]] wiki-link into its target,
+  // (optional) #Heading or #^block-id fragment, and (optional) label.
+  // The brackets are optional, eg:
+  // `[[the-note.md#Some Heading|The Note]]`
+  //   => { target: 'the-note.md', fragment: 'Some Heading', label: 'The Note' }
+  // `the-note.md`
+  //   => { target: 'the-note.md', fragment: undefined, label: undefined }
+  static wikiLinkParts(
+    linkText: string
+  ): { target: string; fragment: string | undefined; label: string | undefined } {
+    let n = linkText.replace(/^\[\[/, '').replace(/\]\]$/, '');
+    let label: string | undefined;
+    let fragment: string | undefined;
+    let i = n.indexOf('|');
+    if (i != -1) {
+      label = n.slice(i + 1);
+      n = n.slice(0, i);
+    }
+    i = n.indexOf('#');
+    if (i != -1) {
+      fragment = n.slice(i + 1).trim();
+      n = n.slice(0, i);
+    }
+    return { target: n.trim(), fragment: fragment, label: label };
+  }
+
+  static wikiLinkTarget(linkText: string): string {
+    return this.wikiLinkParts(linkText).target;
+  }
+
+  // Guess which noteCompletionConvention a [[wiki-link]] was written in,
+  // so that we can rewrite it the same way (eg, when renaming a note):
+  // `wiki-link.md` => rawFilename
+  // `wiki link` => toSpaces
+  // `wiki-link` => noExtension
+  static noteCompletionConventionForLink(linkText: string): NoteCompletionConvention {
+    let n = this.wikiLinkTarget(linkText);
+    if (n.match(this.rxFileExtensions())) {
+      return NoteCompletionConvention.rawFilename;
+    } else if (n.match(/\s/)) {
+      return NoteCompletionConvention.toSpaces;
+    } else {
+      return NoteCompletionConvention.noExtension;
+    }
+  }
+
+  // also true when `toFsPath` is the note createMissingNote would create for the link,
+  // eg, [[../projects/new idea]] => ../projects/new-idea.md
+  static _wikiLinkResolvesToPath(linkText: string, fromFsPath: string, toFsPath: string): boolean {
+    let target = resolve(dirname(fromFsPath), this.wikiLinkTarget(linkText));
+    if (target == toFsPath || target == this.stripExtension(toFsPath)) {
+      return true;
+    }
+    return (
+      dirname(target) == dirname(toFsPath) &&
+      this.noteFileNameForLink(basename(target)) == basename(toFsPath)
+    );
+  }
+
+  // In `relativePaths` mode, the fsPath of the note to create for a [[wiki-link]] to `target`
+  // in the note at `fromFsPath`: the target resolved against the dir of that note,
+  // with only its last segment slugified, eg, `../projects/new idea` => `../projects/new-idea.md`.
+  // undefined if that is outside of the workspace folder at `folderFsPath`.
+  static noteFsPathForRelativeLink(
+    target: string,
+    fromFsPath: string,
+    folderFsPath: string
+  ): string | undefined {
+    let segments = target.split(/[\\/]/);
+    let name = (segments.pop() || '').trim();
+    if (!name) {
+      return undefined;
+    }
+    let dir = resolve(dirname(fromFsPath), segments.join('/'));
+    let fsPath = join(dir, this.noteFileNameForLink(name));
+    let rel = relative(folderFsPath, fsPath);
+    if (!rel || isAbsolute(rel) || rel.split(sep)[0] == '..') {
+      return undefined;
+    }
+    return fsPath;
+  }
+
+  // Of all the `noteFsPaths` in the workspace, return the ones that the text of
+  // a [[wiki-link]] in the note at `fromFsPath` points at.
+  // In `uniqueFilenames` mode, fall back to treating the link as a relative path
+  // (same as Go to Definition does).
+  // In `relativePaths` mode, fall back to the frontmatter `aliases` of each note.
+  // More than 1 result means the link is ambiguous.
+  // Notes in other workspace folders only match if allowLinksAcrossWorkspaceFolders.
+  static noteFsPathsForWikiLink(
+    linkText: string,
+    fromFsPath: string,
+    noteFsPaths: Array<string>,
+    aliasesFor: (fsPath: string) => Array<string> = () => []
+  ): Array<string> {
+    let matches: Array<string> = [];
+    let useUniqueFilenames = this.useUniqueFilenames(fromFsPath);
+    noteFsPaths = noteFsPaths.filter((p) => this.canLinkAcross(fromFsPath, p));
+    if (useUniqueFilenames) {
+      matches = noteFsPaths.filter((p) =>
+        this.noteNamesFuzzyMatch(basename(p), linkText, aliasesFor(p))
+      );
+    }
+    if (matches.length == 0) {
+      matches = noteFsPaths.filter((p) => this._wikiLinkResolvesToPath(linkText, fromFsPath, p));
+    }
+    if (matches.length == 0 && !useUniqueFilenames) {
+      matches = noteFsPaths.filter((p) => this.noteNamesFuzzyMatch('', linkText, aliasesFor(p)));
+    }
+    return matches;
+  }
+
+  // When the note that `oldLinkText` points to has moved to `toFsPath`,
+  // return the new text for the [[wiki-link]] in the note at `fromFsPath`,
+  // keeping the noteCompletionConvention the link was originally written in,
+  // and the #fragment and |label of the link, if it has them.
+  static wikiLinkTextForRename(oldLinkText: string, fromFsPath: string, toFsPath: string): string {
+    let convention = this.noteCompletionConventionForLink(oldLinkText);
+    let target: string;
+    if (this.useUniqueFilenames(fromFsPath)) {
+      target = this._wikiLinkCompletionForConvention(convention, basename(toFsPath));
+    } else {
+      let rel = normalize(relative(dirname(fromFsPath), toFsPath));
+      target = convention == NoteCompletionConvention.rawFilename ? rel : this.stripExtension(rel);
+    }
+    let { fragment, label } = this.wikiLinkParts(oldLinkText);
+    if (fragment !== undefined) {
+      target = `${target}#${fragment}`;
+    }
+    return label === undefined ? target : `${target}|${label}`;
+  }
+
+  // Filename for a note being renamed to `newName`.
+  // If `newName` has no extension, slugify it and keep the extension of the old file.
+  static noteFileNameForRename(newName: string, oldFsPath: string): string {
+    let n = newName.trim();
+    if (n.match(this.rxFileExtensions())) {
+      return n;
+    }
+    return `${this.cleanTitle(this.slugifyTitle(n))}${extname(oldFsPath)}`;
+  }
+
+  // `fsPath` is the note the setting applies to, see `cfg`
+  static useUniqueFilenames(fsPath?: string): boolean {
     // return false;
-    return this.cfg().workspaceFilenameConvention == 'uniqueFilenames';
+    return this.cfg(fsPath).workspaceFilenameConvention == 'uniqueFilenames';
+  }
+
+  static allowLinksAcrossWorkspaceFolders(): boolean {
+    return !!this.cfg().allowLinksAcrossWorkspaceFolders;
+  }
+
+  // the fsPath of the workspace folder that contains `fsPath`, if any
+  static workspaceFolderFor(fsPath: string): string | undefined {
+    let folders = (vscode.workspace.workspaceFolders || []).map((f) => f.uri.fsPath);
+    return this._workspaceFolderFor(fsPath, folders);
+  }
+
+  // of the `folderFsPaths`, the innermost one that contains `fsPath`
+  // (folders of a multi-root workspace may be nested)
+  static _workspaceFolderFor(fsPath: string, folderFsPaths: Array<string>): string | undefined {
+    return folderFsPaths
+      .filter((f) => fsPath == f || fsPath.startsWith(f.endsWith(sep) ? f : `${f}${sep}`))
+      .sort((a, b) => b.length - a.length)[0];
+  }
+
+  // Can a [[wiki-link]] in the note at `fromFsPath` point at the note at `toFsPath`?
+  // Always, unless allowLinksAcrossWorkspaceFolders is off
+  // and the notes are in different folders of a multi-root workspace.
+  static canLinkAcross(fromFsPath: string, toFsPath: string): boolean {
+    if (this.allowLinksAcrossWorkspaceFolders()) {
+      return true;
+    }
+    return this.workspaceFolderFor(fromFsPath) == this.workspaceFolderFor(toFsPath);
   }
 
   static createNoteOnGoToDefinitionWhenMissing(): boolean {
     return !!this.cfg().createNoteOnGoToDefinitionWhenMissing;
   }
 
+  static diagnosticsEnabled(): boolean {
+    return !!this.cfg().diagnosticsEnabled;
+  }
+
+  static diagnoseOrphanNotes(): boolean {
+    return !!this.cfg().diagnoseOrphanNotes;
+  }
+
+  static hoverPreviewLines(): number {
+    return this.cfg().hoverPreviewLines;
+  }
+
+  static includeNestedTagsInSearch(): boolean {
+    return !!this.cfg().includeNestedTagsInSearch;
+  }
+
+  // true if `tag` is `ancestor` itself, or nested under it,
+  // eg, #project/alpha/design is nested under #project and #project/alpha
+  static tagIsOrDescendsFrom(tag: string, ancestor: string): boolean {
+    return tag == ancestor || tag.startsWith(`${ancestor}/`);
+  }
+
+  // the distinct tags 1 level below `parent` (or the top level tags, if no parent),
+  // including levels that are only used as part of a deeper tag, eg,
+  // childTags('#project', ['#project/alpha/design']) => ['#project/alpha']
+  static childTags(parent: string | undefined, tags: Array<string>): Array<string> {
+    let prefix = parent ? `${parent}/` : '#';
+    let children: Set<string> = new Set();
+    tags
+      .filter((t) => t.startsWith(prefix) && t.length > prefix.length)
+      .map((t) => {
+        let rest = t.slice(prefix.length).split('/')[0];
+        children.add(`${prefix}${rest}`);
+      });
+    return Array.from(children);
+  }
+
   static stripExtension(noteName: string): string {
     return noteName.replace(NoteWorkspace.rxFileExtensions(), '');
   }
 
   static normalizeNoteNameForFuzzyMatch(noteName: string): string {
-    // remove the brackets:
-    let n = noteName.replace(/[\[\]]/g, '');
+    // remove the brackets and any |label:
+    let n = this.wikiLinkTarget(noteName);
     // remove the filepath:
     // NB: this may not work with relative paths?
     n = basename(n);
@@ -154,10 +557,25 @@ export class NoteWorkspace {
     return n;
   }
 
+  // normalize the text of a `## Heading` or the fragment of a [[note#Heading]] wiki-link,
+  // so that, eg, `[[note#some-heading]]` matches `## Some Heading!`
+  static normalizeHeadingForFuzzyMatch(heading: string): string {
+    return heading
+      .toLowerCase()
+      .replace(/[!"\#$%&'()*+,./:;<=>?@\[\\\]^‘{|}~]/g, '')
+      .trim()
+      .replace(/[\s\-_]+/g, '-');
+  }
+
   // Compare 2 wiki-links for a fuzzy match.
   // All of the following will return true
-  static noteNamesFuzzyMatch(left: string, right: string): boolean {
-    return this.normalizeNoteNameForFuzzyMatch(left) == this.normalizeNoteNameForFuzzyMatch(right);
+  // When `left` names a note, pass its frontmatter `aliases`
+  // to also match `right` against each of those.
+  static noteNamesFuzzyMatch(left: string, right: string, aliases: Array<string> = []): boolean {
+    let r = this.normalizeNoteNameForFuzzyMatch(right);
+    return [left]
+      .concat(aliases)
+      .some((name) => this.normalizeNoteNameForFuzzyMatch(name) == r);
   }
 
   static cleanTitle (title: string): string {
@@ -175,60 +593,108 @@ export class NoteWorkspace {
     return t.match(this.rxFileExtensions()) ? t : `${t}.${this.defaultFileExtension()}`;
   }
 
-  static newNote(context: vscode.ExtensionContext) {
-    // console.debug('newNote');
-    const inputBoxPromise = vscode.window.showInputBox({
-      prompt:
-        "Enter a 'Title Case Name' to create `title-case-name.md` with '# Title Case Name' at the top.",
-      value: '',
+  // the filename for the last segment of a [[wiki-link]] in `relativePaths` mode,
+  // keeping its extension, if it has one,
+  // eg, `new idea` => `new-idea.md`, `To Do.markdown` => `to-do.markdown`
+  static noteFileNameForLink(name: string): string {
+    let ext = extname(name);
+    if (!ext.match(this.rxFileExtensions())) {
+      return this.noteFileNameFromTitle(name);
+    }
+    return `${this.stripExtension(this.noteFileNameFromTitle(this.stripExtension(name)))}${ext}`;
+  }
+
+  // the filename of a new note titled `title`, in `dir`, in the newNoteFilenameScheme
+  static noteFileNameFor(title: string, dir: string): string {
+    let scheme = this.cfg(dir).newNoteFilenameScheme;
+    let existing = existsSync(dir) ? readdirSync(dir) : [];
+    return this._noteFileNameFor(scheme, title, new Date(), existing);
+  }
+
+  // eg, hot-wings.md (slug), 202006301230.md (id) or 202006301230-hot-wings.md (idSlug).
+  // An id is the time the note is created, to the minute,
+  // which is bumped a minute at a time until no file in `existing` starts with it.
+  static _noteFileNameFor(
+    scheme: NewNoteFilenameScheme,
+    title: string,
+    date: Date,
+    existing: Array<string>
+  ): string {
+    if (scheme != NewNoteFilenameScheme.id && scheme != NewNoteFilenameScheme.idSlug) {
+      return this.noteFileNameFromTitle(title);
+    }
+    let d = new Date(date.getTime());
+    let id = formatDate(d, 'YYYYMMDDHHmm');
+    while (existing.some((f) => f.startsWith(id))) {
+      d.setMinutes(d.getMinutes() + 1);
+      id = formatDate(d, 'YYYYMMDDHHmm');
+    }
+    if (scheme == NewNoteFilenameScheme.id) {
+      return `${id}.${this.defaultFileExtension()}`;
+    }
+    return this.noteFileNameFromTitle(`${id} ${title}`);
+  }
+
+  // whether `filename` starts with an id (see _noteFileNameFor), eg, 202006301230-hot-wings.md
+  static isNoteIdFilename(filename: string): boolean {
+    return !!filename.match(/^(\d{12}|\d{14})(?!\d)/);
+  }
+
+  // The directory to create a new note in, in the workspace folder at `folderFsPath`,
+  // for a new note created from the note at `fromFsPath`, if any.
+  // undefined if the user cancels the `prompt`.
+  static async newNoteDir(
+    location: NewNoteLocation,
+    folderFsPath: string,
+    fromFsPath?: string
+  ): Promise<string | undefined> {
+    let sameDirectory = fromFsPath ? dirname(fromFsPath) : folderFsPath;
+    let inbox = join(folderFsPath, this.cfg(folderFsPath).inboxFolder || 'inbox');
+    if (location == NewNoteLocation.sameDirectory) {
+      return sameDirectory;
+    } else if (location == NewNoteLocation.inbox) {
+      return inbox;
+    } else if (location != NewNoteLocation.prompt) {
+      return folderFsPath;
+    }
+    let relativeDir = (dir: string) => relative(folderFsPath, dir) || basename(folderFsPath);
+    let items = [
+      { label: 'Same Directory', description: relativeDir(sameDirectory), dir: sameDirectory },
+      { label: 'Workspace Root', description: basename(folderFsPath), dir: folderFsPath },
+      { label: 'Inbox', description: relativeDir(inbox), dir: inbox },
+      { label: 'Choose Folder...', description: '', dir: '' },
+    ];
+    let item = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Folder to create the new note in',
     });
+    if (item && !item.dir) {
+      let picked = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        defaultUri: vscode.Uri.file(sameDirectory),
+        openLabel: 'Create Note Here',
+      });
+      return picked && picked.length > 0 ? picked[0].fsPath : undefined;
+    }
+    return item?.dir;
+  }
 
-    let workspaceUri = '';
-    if (vscode.workspace.workspaceFolders) {
-      workspaceUri = vscode.workspace.workspaceFolders[0].uri.fsPath.toString();
-    }
-
-    inputBoxPromise.then(
-      (noteName) => {
-        if (noteName == null || !noteName || noteName.replace(/\s+/g, '') == '') {
-          // console.debug('Abort: noteName was empty.');
-          return false;
-        }
-
-        const filename = NoteWorkspace.noteFileNameFromTitle(noteName);
-        const filepath = join(workspaceUri, filename);
-
-        const fileAlreadyExists = existsSync(filepath);
-        // create the file if it does not exists
-        if (!fileAlreadyExists) {
-          const contents = `# ${noteName}\n\n`;
-          writeFileSync(filepath, contents);
-        }
-
-        // open the file:
-        vscode.window
-          .showTextDocument(vscode.Uri.file(filepath), {
-            preserveFocus: false,
-            preview: false,
-          })
-          .then(() => {
-            // if we created a new file, hop to line #3
-            if (!fileAlreadyExists) {
-              let editor = vscode.window.activeTextEditor;
-              if (editor) {
-                const lineNumber = 3;
-                let range = editor.document.lineAt(lineNumber - 1).range;
-                editor.selection = new vscode.Selection(range.start, range.end);
-                editor.revealRange(range);
-              }
-            }
-          });
-      },
-      (err) => {
-        vscode.window.showErrorMessage('Error creating new note.');
-        // console.error(err);
-      }
-    );
+  // New notes go in the workspace folder of the note being edited,
+  // or else, when there are several folders, the one the user picks.
+  static async workspaceFolderForNewNote(): Promise<vscode.WorkspaceFolder | undefined> {
+    let editor = vscode.window.activeTextEditor;
+    let folder = editor && vscode.workspace.getWorkspaceFolder(editor.document.uri);
+    if (folder) {
+      return folder;
+    }
+    let folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length > 1) {
+      return vscode.window.showWorkspaceFolderPick({
+        placeHolder: 'Workspace folder to create the new note in',
+      });
+    }
+    return folders[0];
   }
 
   static overrideMarkdownWordPattern() {
@@ -239,9 +705,12 @@ export class NoteWorkspace {
   }
 
   static async noteFiles(): Promise<Array<vscode.Uri>> {
-    let files = (await vscode.workspace.findFiles('**/*')).filter(
-      // TODO: parameterize extensions. Add $ to end?
-      (f) => f.scheme == 'file' && f.path.match(/\.(md|markdown)/i)
+    // NB: an exclude passed to findFiles replaces `files.exclude`, so both are in excludeGlobs.
+    // findFiles does not support nested {braces}, so leave those patterns to isNoteFile
+    let excludes = this.excludeGlobs().filter((g) => !g.match(/[\{\}]/));
+    let exclude = excludes.length > 0 ? `{${excludes.join(',')}}` : undefined;
+    let files = (await vscode.workspace.findFiles(this.noteFilesGlob(), exclude)).filter((f) =>
+      this.isNoteFile(f)
     );
     return files;
   }
@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import { LinkStatus, Note, NoteParser, OutgoingLink, RawRange } from './NoteParser';
+import { NoteWorkspace } from './NoteWorkspace';
+import { RefType } from './Ref';
+
+// Explorer Panel for what the active note links to:
+// - Links (N)
+//   - target.md (N), and whether the note is missing, or the link is ambiguous
+//     - each line the link is on
+// - Tags (N)
+//   - #tag (N)
+//     - each line the tag is on
+export class OutgoingLinksTreeDataProvider implements vscode.TreeDataProvider<OutgoingItem> {
+  _onDidChangeTreeData: vscode.EventEmitter<OutgoingItem | void> = new vscode.EventEmitter();
+  onDidChangeTreeData: vscode.Event<OutgoingItem | void> = this._onDidChangeTreeData.event;
+  reload(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: OutgoingItem): vscode.TreeItem {
+    return element;
+  }
+
+  // the whole tree for a note is small, so it is built at once, from the cached Note
+  getChildren(element?: OutgoingItem): Thenable<OutgoingItem[]> {
+    if (element) {
+      return Promise.resolve(element.children);
+    }
+    let uri = vscode.window.activeTextEditor?.document.uri;
+    if (!uri || !NoteWorkspace.isNoteFile(uri)) {
+      return Promise.resolve([]);
+    }
+    return NoteParser.readNote(uri.fsPath).then((note) => [
+      OutgoingItem.linksSection(note, NoteParser.outgoingLinks(note)),
+      OutgoingItem.tagsSection(note),
+    ]);
+  }
+
+  // eg, `5 links, 1 missing`
+  static linksDescription(links: Array<OutgoingLink>): string {
+    let count = (status?: LinkStatus) =>
+      links
+        .filter((l) => status === undefined || l.status == status)
+        .reduce((n, l) => n + l.refCandidates.length, 0);
+    let n = count();
+    let parts = [`${n} ${n == 1 ? 'link' : 'links'}`];
+    [LinkStatus.Missing, LinkStatus.Ambiguous].map((status) => {
+      if (count(status) > 0) {
+        parts.push(`${count(status)} ${status}`);
+      }
+    });
+    return parts.join(', ');
+  }
+}
+
+class OutgoingItem extends vscode.TreeItem {
+  constructor(
+    public readonly label: string,
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public children: Array<OutgoingItem> = [],
+    // where clicking the item goes to
+    private location?: vscode.Location
+  ) {
+    super(label, collapsibleState);
+  }
+
+  static linksSection(note: Note, links: Array<OutgoingLink>): OutgoingItem {
+    let cs = vscode.TreeItemCollapsibleState.Expanded;
+    let children = links.map((link) => OutgoingItem.fromOutgoingLink(note, link));
+    let item = new OutgoingItem('Links', cs, children);
+    item.description = OutgoingLinksTreeDataProvider.linksDescription(links);
+    item.iconPath = new vscode.ThemeIcon('references');
+    return item;
+  }
+
+  static tagsSection(note: Note): OutgoingItem {
+    let cs = vscode.TreeItemCollapsibleState.Expanded;
+    let tags = Array.from(note.tagSet()).sort();
+    let children = tags.map((tag) => OutgoingItem.fromTag(note, tag));
+    let item = new OutgoingItem('Tags', cs, children);
+    item.description = `${tags.length} ${tags.length == 1 ? 'tag' : 'tags'}`;
+    item.iconPath = new vscode.ThemeIcon('tag');
+    return item;
+  }
+
+  // the 1 collapsible Item per target, which opens the target note if there is exactly 1,
+  // or else goes to the first link to it
+  static fromOutgoingLink(note: Note, link: OutgoingLink): OutgoingItem {
+    let cs = vscode.TreeItemCollapsibleState.Collapsed;
+    let children = link.refCandidates.map((rc) => OutgoingItem.fromRange(note, rc.range));
+    let n = link.refCandidates.length;
+    if (link.status == LinkStatus.Exists) {
+      let uri = vscode.Uri.file(link.fsPaths[0]);
+      let top = new vscode.Position(0, 0);
+      let item = new OutgoingItem(
+        vscode.workspace.asRelativePath(uri),
+        cs,
+        children,
+        new vscode.Location(uri, top)
+      );
+      item.description = `${n}`;
+      item.iconPath = vscode.ThemeIcon.File;
+      item.resourceUri = uri;
+      item.tooltip = uri.fsPath;
+      return item;
+    }
+    let item = new OutgoingItem(link.target, cs, children, children[0].location);
+    item.description = `${n} (${link.status})`;
+    if (link.status == LinkStatus.Missing) {
+      item.iconPath = new vscode.ThemeIcon('warning');
+      item.tooltip = `No note found for [[${link.target}]]`;
+    } else {
+      item.iconPath = new vscode.ThemeIcon('question');
+      let names = link.fsPaths.map((p) => vscode.workspace.asRelativePath(p)).join(', ');
+      item.tooltip = `[[${link.target}]] matches more than 1 note: ${names}`;
+    }
+    return item;
+  }
+
+  // the 1 Item per #tag, with its inline occurrences
+  // (a tag that is only in the frontmatter goes to the top of the note)
+  static fromTag(note: Note, tag: string): OutgoingItem {
+    let rcs = note.refCandidates.filter((rc) => rc.refType == RefType.Tag && rc.rawText == tag);
+    let children = rcs.map((rc) => OutgoingItem.fromRange(note, rc.range));
+    let cs =
+      children.length > 0
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None;
+    let top = new vscode.Location(vscode.Uri.file(note.fsPath), new vscode.Position(0, 0));
+    let location = children.length > 0 ? children[0].location : top;
+    let item = new OutgoingItem(tag, cs, children, location);
+    item.description = children.length > 0 ? `${children.length}` : 'frontmatter';
+    return item;
+  }
+
+  // items for the lines of the note a link or tag is on
+  static fromRange(note: Note, r: RawRange): OutgoingItem {
+    // range is 0-indexed, but editor lines are 1-indexed
+    let cs = vscode.TreeItemCollapsibleState.None;
+    let range = new vscode.Range(r.start.line, r.start.character, r.end.line, r.end.character);
+    let location = new vscode.Location(vscode.Uri.file(note.fsPath), range);
+    let item = new OutgoingItem(`${r.start.line + 1}:`, cs, [], location);
+    item.description = (note.lines()[r.start.line] || '').trim();
+    return item;
+  }
+
+  get command(): vscode.Command | undefined {
+    if (this.location) {
+      return {
+        command: 'vscode.open',
+        arguments: [
+          this.location.uri,
+          {
+            preview: true,
+            selection: this.location.range,
+          },
+        ],
+        title: 'Open File',
+      };
+    }
+  }
+}
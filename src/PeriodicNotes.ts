@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import { basename, dirname, join, resolve } from 'path';
+import { existsSync, readdirSync } from 'fs';
+import { NoteWorkspace } from './NoteWorkspace';
+import { NoteTemplate } from './NoteTemplate';
+import { NewNote } from './NewNote';
+import { formatDate, parseDate } from './utils';
+
+export enum Period {
+  Daily = 'daily',
+  Weekly = 'weekly',
+  Monthly = 'monthly',
+}
+
+type PeriodicNoteSettings = {
+  // relative to the workspace folder
+  folder: string;
+  // a date format, eg, 'YYYY-MM-DD', which is slugified like any other note name
+  filenameFormat: string;
+  // the template for new notes (see NoteTemplate.read)
+  template: string;
+};
+
+// Commands for daily, weekly and monthly notes.
+// A periodic note is a regular note, named after the date of the period it is for,
+// so it is named with NoteWorkspace.noteFileNameFromTitle, and linked to like any other note,
+// eg, [[2020-06-30]].
+export class PeriodicNotes {
+  static settings(period: Period, fsPath?: string): PeriodicNoteSettings {
+    let cfg = NoteWorkspace.cfg(fsPath);
+    if (period == Period.Weekly) {
+      return {
+        folder: cfg.weeklyNoteFolder,
+        filenameFormat: cfg.weeklyNoteFilenameFormat,
+        template: cfg.weeklyNoteTemplate,
+      };
+    } else if (period == Period.Monthly) {
+      return {
+        folder: cfg.monthlyNoteFolder,
+        filenameFormat: cfg.monthlyNoteFilenameFormat,
+        template: cfg.monthlyNoteTemplate,
+      };
+    }
+    return {
+      folder: cfg.dailyNoteFolder,
+      filenameFormat: cfg.dailyNoteFilenameFormat,
+      template: cfg.dailyNoteTemplate,
+    };
+  }
+
+  // the first day of the period `date` is in (weeks start on Monday)
+  static startOf(period: Period, date: Date): Date {
+    if (period == Period.Weekly) {
+      let monday = date.getDate() - ((date.getDay() + 6) % 7);
+      return new Date(date.getFullYear(), date.getMonth(), monday);
+    } else if (period == Period.Monthly) {
+      return new Date(date.getFullYear(), date.getMonth(), 1);
+    }
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+
+  // `date` moved by `n` periods
+  static add(period: Period, date: Date, n: number): Date {
+    if (period == Period.Weekly) {
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 7 * n);
+    } else if (period == Period.Monthly) {
+      return new Date(date.getFullYear(), date.getMonth() + n, 1);
+    }
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + n);
+  }
+
+  // eg, 2020-06-30
+  static title(period: Period, date: Date, filenameFormat: string): string {
+    return formatDate(PeriodicNotes.startOf(period, date), filenameFormat);
+  }
+
+  // eg, 2020-06-30.md
+  static filenameFor(period: Period, date: Date, filenameFormat: string): string {
+    return NoteWorkspace.noteFileNameFromTitle(PeriodicNotes.title(period, date, filenameFormat));
+  }
+
+  // The date of the periodic note named `filename`, or undefined if it isn't one.
+  static dateFromFilename(
+    period: Period,
+    filename: string,
+    filenameFormat: string
+  ): Date | undefined {
+    let name = NoteWorkspace.stripExtension(filename);
+    // the literal parts of the format are slugified in the filename, eg, ', ' => '-'
+    let date = parseDate(name, filenameFormat, (text) =>
+      text ? NoteWorkspace.slugifyTitle(text).toLowerCase() : text
+    );
+    if (date && PeriodicNotes.filenameFor(period, date, filenameFormat) == filename) {
+      return PeriodicNotes.startOf(period, date);
+    }
+    return undefined;
+  }
+
+  // open the note for the period `offset` periods from now, creating it if needed
+  static async open(period: Period, offset = 0) {
+    let folder = await NoteWorkspace.workspaceFolderForNewNote();
+    if (!folder) {
+      return;
+    }
+    let date = PeriodicNotes.add(period, PeriodicNotes.startOf(period, new Date()), offset);
+    PeriodicNotes.openFor(period, date, folder.uri.fsPath);
+  }
+
+  static openFor(period: Period, date: Date, folderFsPath: string) {
+    let s = PeriodicNotes.settings(period, folderFsPath);
+    let title = PeriodicNotes.title(period, date, s.filenameFormat);
+    let filename = PeriodicNotes.filenameFor(period, date, s.filenameFormat);
+    let filepath = join(folderFsPath, s.folder, filename);
+    let contents = '';
+    if (!existsSync(filepath)) {
+      // the template for the period, or else the one for new notes in its folder
+      let template = s.template || NoteTemplate.templateNameFor(filepath, folderFsPath);
+      contents = NoteTemplate.render(NoteTemplate.read(folderFsPath, template), {
+        title: title,
+        date: date,
+        fsPath: filepath,
+      });
+    }
+    NewNote.createAndOpenNote(filepath, contents);
+  }
+
+  // go from the active daily note to the closest existing daily note before (-1) or after (1) it
+  static async openAdjacentDailyNote(direction: 1 | -1) {
+    let uri = vscode.window.activeTextEditor?.document.uri;
+    let folder = uri && vscode.workspace.getWorkspaceFolder(uri);
+    let s = PeriodicNotes.settings(Period.Daily, uri?.fsPath);
+    let date =
+      uri &&
+      folder &&
+      resolve(dirname(uri.fsPath)) == resolve(folder.uri.fsPath, s.folder) &&
+      PeriodicNotes.dateFromFilename(Period.Daily, basename(uri.fsPath), s.filenameFormat);
+    if (!uri || !date) {
+      vscode.window.showInformationMessage('The active note is not a daily note.');
+      return;
+    }
+    let filenames = readdirSync(dirname(uri.fsPath));
+    let adjacent = PeriodicNotes.adjacent(
+      Period.Daily,
+      date,
+      direction,
+      filenames,
+      s.filenameFormat
+    );
+    if (!adjacent) {
+      let which = direction < 0 ? 'previous' : 'next';
+      vscode.window.showInformationMessage(`There is no ${which} daily note.`);
+      return;
+    }
+    NewNote.createAndOpenNote(join(dirname(uri.fsPath), adjacent), '');
+  }
+
+  // of the periodic notes in `filenames`, the closest before (-1) or after (1) `date`
+  static adjacent(
+    period: Period,
+    date: Date,
+    direction: 1 | -1,
+    filenames: Array<string>,
+    filenameFormat: string
+  ): string | undefined {
+    let closest: { filename: string; time: number } | undefined;
+    filenames.map((filename) => {
+      let d = PeriodicNotes.dateFromFilename(period, filename, filenameFormat);
+      let time = d ? d.getTime() : NaN;
+      if ((time - date.getTime()) * direction > 0) {
+        if (!closest || (time - closest.time) * direction < 0) {
+          closest = { filename: filename, time: time };
+        }
+      }
+    });
+    return closest?.filename;
+  }
+}
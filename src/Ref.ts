@@ -1,8 +1,9 @@
 /* 
 A `Ref` is a match for:
 
-- a [[wiki-link]]
-- a #tag
+- a [[wiki-link]] (optionally to a section of a note: [[note#Heading]] or [[note#^block-id]])
+- a ![[note]] or ![[note#Heading]] embed, which is rendered inline in the Markdown preview
+- a #tag (optionally nested: #project/alpha/design)
 
 in the content of a Note document in your workspace.
 
@@ -14,13 +15,23 @@ export enum RefType {
   Null, // 0
   WikiLink, // 1
   Tag, // 2
+  Embed, // 3
 }
 
+// An embed is a wiki-link with a ! in front of it, so it resolves to notes,
+// and counts as a backlink, just like a wiki-link does.
+// (A RefCandidate for an embed is only the [[wiki-link]] part, without the !)
+export const isWikiLinkType = (type: RefType): boolean =>
+  type == RefType.WikiLink || type == RefType.Embed;
+
 export interface Ref {
   type: RefType;
   word: string;
   hasExtension: boolean | null;
   range: vscode.Range | undefined;
+  // for a [[note#Heading]] or [[note#^block-id]] wiki-link,
+  // the part after the #, ie, `Heading` or `^block-id`
+  fragment?: string;
 }
 
 export const debugRef = (ref: Ref) => {
@@ -30,6 +41,7 @@ export const debugRef = (ref: Ref) => {
     word: ref.word,
     hasExtension: ref.hasExtension,
     range: ref.range,
+    fragment: ref.fragment,
   });
 };
 
@@ -49,23 +61,8 @@ export function getRefAt(document: vscode.TextDocument, position: vscode.Positio
   // rp.walkWikiLinksAndTags();
   // let currentNode = rp.getNodeAtPosition(position);
 
-  // #tag regexp
-  regex = NoteWorkspace.rxTagNoAnchors();
-  range = document.getWordRangeAtPosition(position, regex);
-  if (range) {
-    // here we do nothing to modify the range because the replacements
-    // will include the # character, so we want to keep the leading #
-    ref = document.getText(range);
-    if (ref) {
-      return {
-        type: RefType.Tag,
-        word: ref.replace(/^\#+/, ''),
-        hasExtension: null,
-        range: range,
-      };
-    }
-  }
-
+  // NB: check for [[wiki-links]] BEFORE #tags,
+  // since a [[note#Heading]] wiki-link contains something that looks like a #tag
   regex = NoteWorkspace.rxWikiLink();
   range = document.getWordRangeAtPosition(position, regex);
   if (range) {
@@ -80,13 +77,49 @@ export function getRefAt(document: vscode.TextDocument, position: vscode.Positio
     // keep the end
     let r = new vscode.Range(s, e);
     ref = document.getText(r);
-    if (ref) {
+    // For a [[target|label]] wiki-link, the Ref is only the target part,
+    // so that, eg, completions only replace the target and keep the |label
+    let pipe = ref.indexOf('|');
+    if (pipe != -1) {
+      r = new vscode.Range(s, s.translate(0, pipe));
+      ref = ref.slice(0, pipe);
+    }
+    // For a [[note#Heading]] wiki-link, the range is only the note part,
+    // and the Heading is the fragment
+    let fragment: string | undefined;
+    let hash = ref.indexOf('#');
+    if (hash != -1) {
+      r = new vscode.Range(s, s.translate(0, hash));
+      fragment = ref.slice(hash + 1).trim();
+      ref = ref.slice(0, hash);
+    }
+    ref = ref.trim();
+    // a [[#Heading]] wiki-link (with no note) is to a Heading in the note it is in
+    if (ref || fragment !== undefined) {
       return {
         type: RefType.WikiLink,
         word: ref, // .replace(/^\[+/, ''),
-        // TODO: parameterize extensions. Add $ to end?
-        hasExtension: !!ref.match(/\.(md|markdown)/i),
+        hasExtension: !!ref.match(NoteWorkspace.rxFileExtensions()),
         range: r, // range,
+        fragment: fragment,
+      };
+    }
+  }
+
+  // #tag regexp
+  // (partial, so that a nested #project/ tag that is still being typed is completed)
+  regex = NoteWorkspace.rxTagPartial();
+  range = document.getWordRangeAtPosition(position, regex);
+  if (range) {
+    // here we do nothing to modify the range because the replacements
+    // will include the # character, so we want to keep the leading #
+    ref = document.getText(range);
+    if (ref) {
+      return {
+        type: RefType.Tag,
+        word: ref.replace(/^\#+/, '').replace(/\/+$/, ''),
+        hasExtension: null,
+        range: range,
       };
     }
   }
@@ -0,0 +1,203 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Note, NoteParser } from './NoteParser';
+import { NoteWorkspace } from './NoteWorkspace';
+import { RefType } from './Ref';
+import { BacklinksTreeDataProvider, FileWithLocations } from './BacklinksTreeDataProvider';
+import { debounce } from './utils';
+
+export enum TagSortOrder {
+  Alphabetical = 'alphabetical',
+  Count = 'count',
+}
+
+// Explorer Panel that lists every #tag in the workspace:
+// - #tag (N notes)
+//   - nested/ (N notes), ie, #tag/nested
+//     - ...
+//   - note.md
+//     - each line the #tag occurs on
+export class TagsTreeDataProvider implements vscode.TreeDataProvider<TagItem> {
+  static SORT_ORDER_KEY = 'vscodeMarkdownNotes.tagsSortOrder';
+  constructor(private state: vscode.Memento) {}
+  _onDidChangeTreeData: vscode.EventEmitter<TagItem | void> = new vscode.EventEmitter();
+  onDidChangeTreeData: vscode.Event<TagItem | void> = this._onDidChangeTreeData.event;
+  reload(): void {
+    this._onDidChangeTreeData.fire();
+  }
+  // the whole tree is rebuilt from the NoteParser cache,
+  // so wait until a burst of edits has settled before reloading
+  reloadSoon = debounce(() => this.reload(), 500);
+
+  get sortOrder(): TagSortOrder {
+    return this.state.get(TagsTreeDataProvider.SORT_ORDER_KEY, TagSortOrder.Alphabetical);
+  }
+
+  setSortOrder(sortOrder: TagSortOrder) {
+    this.state.update(TagsTreeDataProvider.SORT_ORDER_KEY, sortOrder);
+    this.reload();
+  }
+
+  getTreeItem(element: TagItem): vscode.TreeItem {
+    return element;
+  }
+
+  // the distinct notes that use `tag` or any tag nested under it
+  static notesUnder(tag: string, byTag: Record<string, Array<Note>>): Array<Note> {
+    let notes: Set<Note> = new Set();
+    Object.keys(byTag)
+      .filter((t) => NoteWorkspace.tagIsOrDescendsFrom(t, tag))
+      .map((t) => byTag[t].map((n) => notes.add(n)));
+    return Array.from(notes);
+  }
+
+  static sortTags(
+    tags: Array<string>,
+    byTag: Record<string, Array<Note>>,
+    sortOrder: TagSortOrder
+  ): Array<string> {
+    let alphabetical = (a: string, b: string) => a.toLowerCase().localeCompare(b.toLowerCase());
+    if (sortOrder == TagSortOrder.Count) {
+      let count = (t: string) => TagsTreeDataProvider.notesUnder(t, byTag).length;
+      return tags.sort((a, b) => count(b) - count(a) || alphabetical(a, b));
+    }
+    return tags.sort(alphabetical);
+  }
+
+  // the tags 1 level below `parent` (or the top level tags), in `sortOrder`
+  static childTags(
+    parent: string | undefined,
+    byTag: Record<string, Array<Note>>,
+    sortOrder: TagSortOrder
+  ): Array<string> {
+    let tags = NoteWorkspace.childTags(parent, Object.keys(byTag));
+    return TagsTreeDataProvider.sortTags(tags, byTag, sortOrder);
+  }
+
+  // 1 collapsible element per tag 1 level below `parent` (or per top level tag)
+  tagItems(parent: string | undefined, byTag: Record<string, Array<Note>>): Array<TagItem> {
+    return TagsTreeDataProvider.childTags(parent, byTag, this.sortOrder).map((tag) =>
+      TagItem.fromTag(tag, byTag[tag] || [], TagsTreeDataProvider.notesUnder(tag, byTag), !parent)
+    );
+  }
+
+  getChildren(element?: TagItem): Thenable<TagItem[]> {
+    // TOP LEVEL:
+    // 1 collapsible element per top level tag
+    if (!element) {
+      return NoteParser.notesByTag().then((byTag) => this.tagItems(undefined, byTag));
+      // Given a tag, return 1 collapsible element per tag nested under it,
+      // and 1 collapsible element per note that uses the tag itself
+    } else if (element.tag && element.notes) {
+      let tag = element.tag;
+      let notes = element.notes;
+      return NoteParser.notesByTag().then(async (byTag) => {
+        let filesWithLocations =
+          notes.length > 0 ? await TagsTreeDataProvider.filesWithLocationsForTag(tag, notes) : [];
+        return this.tagItems(tag, byTag).concat(
+          filesWithLocations.map((fwl) => TagItem.fromFileWithLocations(fwl))
+        );
+      });
+      // Given a note, return 1 element per occurrence of the tag
+    } else if (element.locations) {
+      // make sure the note has been read, so its lines can be shown
+      let locations = element.locations;
+      return NoteParser.readNote(locations[0].uri.fsPath).then(() =>
+        locations.map((l) => TagItem.fromLocation(l))
+      );
+    } else {
+      return Promise.resolve([]);
+    }
+  }
+
+  static async filesWithLocationsForTag(
+    tag: string,
+    notes: Array<Note>
+  ): Promise<FileWithLocations[]> {
+    let locations = await NoteParser.search({
+      type: RefType.Tag,
+      word: tag.replace(/^\#/, ''),
+      hasExtension: null,
+      range: undefined,
+    });
+    // Notes that only have the tag in their frontmatter have no inline occurrences,
+    // so point to the top of the note instead
+    notes
+      .filter((note) => !locations.some((l) => l.uri.fsPath == note.fsPath))
+      .map((note) => {
+        let top = new vscode.Position(0, 0);
+        locations.push(new vscode.Location(vscode.Uri.file(note.fsPath), top));
+      });
+    return BacklinksTreeDataProvider.locationListToTree(locations);
+  }
+}
+
+class TagItem extends vscode.TreeItem {
+  constructor(
+    public readonly label: string,
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public tag?: string,
+    public notes?: Array<Note>,
+    public locations?: vscode.Location[],
+    private location?: vscode.Location
+  ) {
+    super(label, collapsibleState);
+  }
+
+  // the 1 collapsible Item for each tag,
+  // where `notes` use the tag itself and `notesUnder` also includes its nested tags.
+  // Nested tags are labeled with just their last level, eg, `alpha` for #project/alpha
+  static fromTag(
+    tag: string,
+    notes: Array<Note>,
+    notesUnder: Array<Note>,
+    isTopLevel: boolean
+  ): TagItem {
+    let cs = vscode.TreeItemCollapsibleState.Collapsed;
+    let label = isTopLevel ? tag : tag.slice(tag.lastIndexOf('/') + 1);
+    let item = new TagItem(label, cs, tag, notes);
+    let n = notesUnder.length;
+    item.description = `${n} ${n == 1 ? 'note' : 'notes'}`;
+    item.tooltip = tag;
+    item.iconPath = new vscode.ThemeIcon('tag');
+    return item;
+  }
+
+  // the 1 collapsible Item for each note that uses a tag
+  static fromFileWithLocations(fwl: FileWithLocations): TagItem {
+    let cs = vscode.TreeItemCollapsibleState.Collapsed;
+    let item = new TagItem(fwl.file, cs, undefined, undefined, fwl.locations);
+    item.description = `${fwl.locations.length}`;
+    item.iconPath = vscode.ThemeIcon.File;
+    item.resourceUri = fwl.locations[0].uri;
+    return item;
+  }
+
+  // items for the locations within files
+  static fromLocation(location: vscode.Location): TagItem {
+    // location / range is 0-indexed, but editor lines are 1-indexed
+    let lineNum = location.range.start.line + 1;
+    let cs = vscode.TreeItemCollapsibleState.None;
+    let item = new TagItem(`${lineNum}:`, cs, undefined, undefined, undefined, location);
+    let note = NoteParser._notes[location.uri.fsPath];
+    item.description = ((note && note.lines()[location.range.start.line]) || '').trim();
+    item.tooltip = `${path.basename(location.uri.fsPath)}:${lineNum}`;
+    return item;
+  }
+
+  get command(): vscode.Command | undefined {
+    if (this.location) {
+      return {
+        command: 'vscode.open',
+        arguments: [
+          this.location.uri,
+          {
+            preview: true,
+            selection: this.location.range,
+          },
+        ],
+        title: 'Open File',
+      };
+    }
+  }
+}
@@ -1,8 +1,20 @@
 import * as vscode from 'vscode';
-import { BacklinksTreeDataProvider } from './BacklinksTreeDataProvider';
+import { BacklinksTreeDataProvider, BacklinkSortOrder } from './BacklinksTreeDataProvider';
 import { MarkdownDefinitionProvider } from './MarkdownDefinitionProvider';
 import { MarkdownReferenceProvider } from './MarkdownReferenceProvider';
 import { MarkdownFileCompletionItemProvider } from './MarkdownFileCompletionItemProvider';
+import { MarkdownRenameProvider } from './MarkdownRenameProvider';
+import { MarkdownCodeActionProvider } from './MarkdownCodeActionProvider';
+import { MarkdownHoverProvider } from './MarkdownHoverProvider';
+import { NoteDiagnostics } from './NoteDiagnostics';
+import { TagsTreeDataProvider, TagSortOrder } from './TagsTreeDataProvider';
+import { OutgoingLinksTreeDataProvider } from './OutgoingLinksTreeDataProvider';
+import { NoteGraphPanel } from './NoteGraphPanel';
+import { MarkdownIt, MarkdownPreview } from './MarkdownPreview';
+import { NewNote } from './NewNote';
+import { PeriodicNotes, Period } from './PeriodicNotes';
+import { NoteChange, NoteWatcher } from './NoteWatcher';
+import { NoteIndexStore } from './NoteIndexStore';
 import { NoteWorkspace } from './NoteWorkspace';
 import { NoteParser } from './NoteParser';
 // import { debug } from 'util';
@@ -24,24 +36,188 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.languages.registerReferenceProvider(md, new MarkdownReferenceProvider())
   );
 
-  vscode.workspace.onDidChangeTextDocument((e: vscode.TextDocumentChangeEvent) => {
-    NoteParser.updateCacheFor(e.document.uri.fsPath);
+  context.subscriptions.push(
+    vscode.languages.registerHoverProvider(md, new MarkdownHoverProvider())
+  );
+
+  context.subscriptions.push(
+    vscode.languages.registerRenameProvider(md, new MarkdownRenameProvider())
+  );
+  context.subscriptions.push(
+    vscode.workspace.onDidRenameFiles(MarkdownRenameProvider.onDidRenameFiles)
+  );
+
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(md, new MarkdownCodeActionProvider(), {
+      providedCodeActionKinds: [vscode.CodeActionKind.QuickFix],
+    })
+  );
+  context.subscriptions.push(NoteDiagnostics.collection());
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'vscodeMarkdownNotes.createMissingNote',
+      MarkdownCodeActionProvider.createMissingNote
+    )
+  );
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e: vscode.ConfigurationChangeEvent) => {
+      let noteFileSettings = [
+        'vscodeMarkdownNotes.noteFileExtensions',
+        'vscodeMarkdownNotes.includeGlobs',
+        'vscodeMarkdownNotes.excludeGlobs',
+        'files.exclude',
+      ];
+      if (noteFileSettings.some((s) => e.affectsConfiguration(s))) {
+        NoteWatcher.rewatch();
+        NoteParser.rebuildCache()
+          .then(() => NoteWatcher.fireIndexChanged())
+          .then(() => MarkdownPreview.refresh())
+          .catch((e) => {
+            vscode.window.showErrorMessage(`Error indexing notes: ${e}`);
+          });
+      } else if (e.affectsConfiguration('vscodeMarkdownNotes')) {
+        // eg, the slugifyCharacter changes how [[wiki-links]] are normalized in the index
+        NoteParser.reindex();
+        NoteDiagnostics.refreshSoon();
+      }
+    })
+  );
+
+  const tagsTreeDataProvider = new TagsTreeDataProvider(context.workspaceState);
+  context.subscriptions.push(
+    vscode.window.createTreeView('vscodeMarkdownNotesTags', {
+      treeDataProvider: tagsTreeDataProvider,
+    })
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscodeMarkdownNotes.sortTagsAlphabetically', () =>
+      tagsTreeDataProvider.setSortOrder(TagSortOrder.Alphabetical)
+    )
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscodeMarkdownNotes.sortTagsByCount', () =>
+      tagsTreeDataProvider.setSortOrder(TagSortOrder.Count)
+    )
+  );
+
+  // keep the index of notes up to date with edits, and with files that are
+  // created, deleted or renamed (in VS Code or not)
+  context.subscriptions.push(NoteWatcher.watch());
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeTextDocument((e: vscode.TextDocumentChangeEvent) => {
+      if (NoteWorkspace.isNoteFile(e.document.uri)) {
+        NoteWatcher.queue(e.document.uri.fsPath, NoteChange.Changed);
+      }
+    })
+  );
+  NoteWatcher.onDidChangeIndex(() => {
+    NoteDiagnostics.refreshSoon();
+    tagsTreeDataProvider.reloadSoon();
   });
 
   let newNoteDisposable = vscode.commands.registerCommand(
     'vscodeMarkdownNotes.newNote',
-    NoteWorkspace.newNote
+    NewNote.newNote
   );
   context.subscriptions.push(newNoteDisposable);
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscodeMarkdownNotes.openDailyNote', () =>
+      PeriodicNotes.open(Period.Daily)
+    ),
+    vscode.commands.registerCommand('vscodeMarkdownNotes.openYesterdaysDailyNote', () =>
+      PeriodicNotes.open(Period.Daily, -1)
+    ),
+    vscode.commands.registerCommand('vscodeMarkdownNotes.openTomorrowsDailyNote', () =>
+      PeriodicNotes.open(Period.Daily, 1)
+    ),
+    vscode.commands.registerCommand('vscodeMarkdownNotes.openPreviousDailyNote', () =>
+      PeriodicNotes.openAdjacentDailyNote(-1)
+    ),
+    vscode.commands.registerCommand('vscodeMarkdownNotes.openNextDailyNote', () =>
+      PeriodicNotes.openAdjacentDailyNote(1)
+    ),
+    vscode.commands.registerCommand('vscodeMarkdownNotes.openWeeklyNote', () =>
+      PeriodicNotes.open(Period.Weekly)
+    ),
+    vscode.commands.registerCommand('vscodeMarkdownNotes.openMonthlyNote', () =>
+      PeriodicNotes.open(Period.Monthly)
+    )
+  );
 
-  // parse the tags from every file in the workspace
-  NoteParser.hydrateCache();
+  // parse the tags from every file in the workspace,
+  // except those that have not changed since the index was saved in the last session
+  const noteIndexStore = new NoteIndexStore(context.storagePath);
+  NoteWatcher.onDidChangeIndex(() => noteIndexStore.saveSoon());
+  noteIndexStore
+    .load()
+    .then((persisted) => NoteParser.hydrateCache(persisted))
+    .then(() => NoteWatcher.fireIndexChanged())
+    .then(() => MarkdownPreview.refresh())
+    .catch((e) => {
+      vscode.window.showErrorMessage(`Error indexing notes: ${e}`);
+    });
 
-  const backlinksTreeDataProvider = new BacklinksTreeDataProvider(
-    vscode.workspace.rootPath || null
-  );
+  const backlinksTreeDataProvider = new BacklinksTreeDataProvider(context.workspaceState);
   vscode.window.onDidChangeActiveTextEditor(() => backlinksTreeDataProvider.reload());
+  NoteWatcher.onDidChangeIndex(() => backlinksTreeDataProvider.reload());
   const treeView = vscode.window.createTreeView('vscodeMarkdownNotesBacklinks', {
     treeDataProvider: backlinksTreeDataProvider,
   });
+  context.subscriptions.push(
+    treeView,
+    treeView.onDidExpandElement((e) => backlinksTreeDataProvider.setExpanded(e.element, true)),
+    treeView.onDidCollapseElement((e) => backlinksTreeDataProvider.setExpanded(e.element, false))
+  );
+  const setBacklinksFilter = (filter: string) => {
+    backlinksTreeDataProvider.setFilter(filter);
+    let f = backlinksTreeDataProvider.filter;
+    treeView.message = f ? `Only showing backlinks that contain '${f}'` : undefined;
+  };
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscodeMarkdownNotes.filterBacklinks', async () => {
+      let filter = await vscode.window.showInputBox({
+        prompt: 'Only show the backlinks in files, or on lines, that contain:',
+        value: backlinksTreeDataProvider.filter,
+      });
+      if (filter !== undefined) {
+        setBacklinksFilter(filter);
+      }
+    }),
+    vscode.commands.registerCommand('vscodeMarkdownNotes.clearBacklinksFilter', () =>
+      setBacklinksFilter('')
+    ),
+    vscode.commands.registerCommand('vscodeMarkdownNotes.sortBacklinksByName', () =>
+      backlinksTreeDataProvider.setSortOrder(BacklinkSortOrder.Name)
+    ),
+    vscode.commands.registerCommand('vscodeMarkdownNotes.sortBacklinksByModified', () =>
+      backlinksTreeDataProvider.setSortOrder(BacklinkSortOrder.Modified)
+    ),
+    vscode.commands.registerCommand('vscodeMarkdownNotes.sortBacklinksByCount', () =>
+      backlinksTreeDataProvider.setSortOrder(BacklinkSortOrder.Count)
+    )
+  );
+  const outgoingLinksTreeDataProvider = new OutgoingLinksTreeDataProvider();
+  vscode.window.onDidChangeActiveTextEditor(() => outgoingLinksTreeDataProvider.reload());
+  NoteWatcher.onDidChangeIndex(() => outgoingLinksTreeDataProvider.reload());
+  context.subscriptions.push(
+    vscode.window.createTreeView('vscodeMarkdownNotesOutgoingLinks', {
+      treeDataProvider: outgoingLinksTreeDataProvider,
+    })
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'vscodeMarkdownNotes.linkUnlinkedMention',
+      BacklinksTreeDataProvider.linkMention
+    )
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscodeMarkdownNotes.showGraph', () =>
+      NoteGraphPanel.show(context)
+    )
+  );
+
+  // render [[wiki-links]] and ![[embeds]] in the built-in Markdown preview
+  return {
+    extendMarkdownIt: (md: MarkdownIt) => MarkdownPreview.extendMarkdownIt(md),
+  };
 }
@@ -1,8 +1,38 @@
 import 'jest';
 import { foo, NoteWorkspace } from '../../NoteWorkspace';
-import { titleCaseFilename } from '../../utils';
+import {
+  editDistance,
+  formatDate,
+  globToRegExp,
+  isoWeek,
+  parseDate,
+  titleCaseFilename,
+} from '../../utils';
 import { Note, NoteParser } from '../../NoteParser';
-import { RefType } from '../../Ref';
+import { Ref, RefType, getRefAt } from '../../Ref';
+import { MarkdownRenameProvider } from '../../MarkdownRenameProvider';
+import { MarkdownCodeActionProvider } from '../../MarkdownCodeActionProvider';
+import { NoteDiagnostics, NoteDiagnosticCode } from '../../NoteDiagnostics';
+import { MarkdownHoverProvider } from '../../MarkdownHoverProvider';
+import { frontmatterTags, parseFrontmatter } from '../../Frontmatter';
+import { tokenizeMarkdown } from '../../MarkdownTokenizer';
+import { NoteChange, NoteWatcher } from '../../NoteWatcher';
+import { NoteIndexStore } from '../../NoteIndexStore';
+import { IndexedRef, NoteIndex, NoteNames } from '../../NoteIndex';
+import { NoteGraph } from '../../NoteGraph';
+import { PeriodicNotes, Period } from '../../PeriodicNotes';
+import { NoteTemplate } from '../../NoteTemplate';
+import {
+  BacklinkSortOrder,
+  BacklinksTreeDataProvider,
+  FileWithLocations,
+} from '../../BacklinksTreeDataProvider';
+import { MarkdownIt, MarkdownPreview } from '../../MarkdownPreview';
+import { TagSortOrder, TagsTreeDataProvider } from '../../TagsTreeDataProvider';
+import { mkdtempSync, rmdirSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as vscode from 'vscode';
 
 jest.mock('../../NoteWorkspace');
 
@@ -76,10 +106,30 @@ test('noteNamesFuzzyMatch', () => {
   expect(NoteWorkspace.noteNamesFuzzyMatch('[[wiki-link.md]]', 'wiki-link.md')).toBeTruthy();
   expect(NoteWorkspace.noteNamesFuzzyMatch('[[wiki-link]]', 'wiki-link.md')).toBeTruthy();
   expect(NoteWorkspace.noteNamesFuzzyMatch('[[wiki link]]', 'wiki-link.md')).toBeTruthy();
-  // TODO: if we add support for #headings, we will want these tests to pass:
-  // expect(NoteWorkspace.noteNamesFuzzyMatch('[[wiki-link.md#with-heading]]', 'wiki-link.md')).toBeTruthy();
-  // expect(NoteWorkspace.noteNamesFuzzyMatch('[[wiki-link#with-heading]]', 'wiki-link.md')).toBeTruthy();
-  // expect(NoteWorkspace.noteNamesFuzzyMatch('[[wiki link#with-heading]]', 'wiki-link.md')).toBeTruthy();
+  expect(
+    NoteWorkspace.noteNamesFuzzyMatch('[[wiki-link|Some Label]]', 'wiki-link.md')
+  ).toBeTruthy();
+  expect(
+    NoteWorkspace.noteNamesFuzzyMatch('[[wiki link | Some Label]]', 'wiki-link.md')
+  ).toBeTruthy();
+  expect(NoteWorkspace.noteNamesFuzzyMatch('[[other|wiki-link]]', 'wiki-link.md')).toBeFalsy();
+  // frontmatter aliases:
+  expect(
+    NoteWorkspace.noteNamesFuzzyMatch('dir/wiki-link.md', 'The Alias', ['Other', 'The Alias'])
+  ).toBeTruthy();
+  expect(NoteWorkspace.noteNamesFuzzyMatch('dir/wiki-link.md', 'The Alias', [])).toBeFalsy();
+  expect(
+    NoteWorkspace.noteNamesFuzzyMatch('[[wiki-link.md#with-heading]]', 'wiki-link.md')
+  ).toBeTruthy();
+  expect(
+    NoteWorkspace.noteNamesFuzzyMatch('[[wiki-link#with-heading]]', 'wiki-link.md')
+  ).toBeTruthy();
+  expect(
+    NoteWorkspace.noteNamesFuzzyMatch('[[wiki link#with-heading]]', 'wiki-link.md')
+  ).toBeTruthy();
+  expect(
+    NoteWorkspace.noteNamesFuzzyMatch('[[wiki link#^block-id|Label]]', 'wiki-link.md')
+  ).toBeTruthy();
 });
 
 test('noteNamesFuzzyMatch', () => {
@@ -95,6 +145,82 @@ test('noteNamesFuzzyMatch', () => {
   // TODO: how should this behaving with #headings?
 });
 
+test('wikiLinkParts', () => {
+  expect(NoteWorkspace.wikiLinkParts('[[project-x|the X project]]')).toEqual({
+    target: 'project-x',
+    fragment: undefined,
+    label: 'the X project',
+  });
+  expect(NoteWorkspace.wikiLinkParts('project-x')).toEqual({
+    target: 'project-x',
+    fragment: undefined,
+    label: undefined,
+  });
+  expect(NoteWorkspace.wikiLinkParts('[[project x | X]]')).toEqual({
+    target: 'project x',
+    fragment: undefined,
+    label: ' X',
+  });
+  expect(NoteWorkspace.wikiLinkParts('[[project-x.md#Some Heading|X]]')).toEqual({
+    target: 'project-x.md',
+    fragment: 'Some Heading',
+    label: 'X',
+  });
+  expect(NoteWorkspace.wikiLinkParts('[[project-x#^block-id]]')).toEqual({
+    target: 'project-x',
+    fragment: '^block-id',
+    label: undefined,
+  });
+});
+
+test('noteCompletionConventionForLink', () => {
+  expect(NoteWorkspace.noteCompletionConventionForLink('[[the-note-name.md]]')).toEqual(
+    'rawFilename'
+  );
+  expect(NoteWorkspace.noteCompletionConventionForLink('the-note-name')).toEqual('noExtension');
+  expect(NoteWorkspace.noteCompletionConventionForLink('the note name')).toEqual('toSpaces');
+});
+
+test('wikiLinkTextForRename', () => {
+  let from = '/notes/index.md';
+  let to = '/notes/sub/new-name.md';
+  expect(NoteWorkspace.wikiLinkTextForRename('[[old-name.md]]', from, to)).toEqual('new-name.md');
+  expect(NoteWorkspace.wikiLinkTextForRename('[[old-name]]', from, to)).toEqual('new-name');
+  expect(NoteWorkspace.wikiLinkTextForRename('[[old name]]', from, to)).toEqual('new name');
+  expect(NoteWorkspace.wikiLinkTextForRename('[[old-name|Old Label]]', from, to)).toEqual(
+    'new-name|Old Label'
+  );
+  expect(NoteWorkspace.wikiLinkTextForRename('[[old-name.md#Heading|Label]]', from, to)).toEqual(
+    'new-name.md#Heading|Label'
+  );
+
+  let orig = NoteWorkspace.useUniqueFilenames;
+  NoteWorkspace.useUniqueFilenames = () => false;
+  expect(NoteWorkspace.wikiLinkTextForRename('[[sub/old-name.md]]', from, to)).toEqual(
+    'sub/new-name.md'
+  );
+  expect(NoteWorkspace.wikiLinkTextForRename('[[sub/old-name]]', from, to)).toEqual(
+    'sub/new-name'
+  );
+  NoteWorkspace.useUniqueFilenames = orig;
+});
+
+test('noteFileNameForRename', () => {
+  expect(NoteWorkspace.noteFileNameForRename('New Name', '/notes/old.markdown')).toEqual(
+    'new-name.markdown'
+  );
+  expect(NoteWorkspace.noteFileNameForRename(' new-name.md ', '/notes/old.markdown')).toEqual(
+    'new-name.md'
+  );
+});
+
+test('MarkdownRenameProvider.tagForRename', () => {
+  expect(MarkdownRenameProvider.tagForRename('meetings')).toEqual('#meetings');
+  expect(MarkdownRenameProvider.tagForRename(' #meetings ')).toEqual('#meetings');
+  expect(() => MarkdownRenameProvider.tagForRename('two words')).toThrow();
+  expect(() => MarkdownRenameProvider.tagForRename('#')).toThrow();
+});
+
 test('titleCaseFilename', () => {
   expect(titleCaseFilename('the-heat-is-on.md')).toEqual('The Heat Is On');
   expect(titleCaseFilename('in-the-heat-of-the-night.md')).toEqual('In the Heat of the Night');
@@ -108,6 +234,41 @@ line1 word1 word2
 [[demo.md]] <- link at line5, chars 0-11
 #tag word`; // line 5, chars 0-3
 
+// just enough of a TextDocument for getRefAt
+const documentWith = (text: string): vscode.TextDocument => {
+  let lines = text.split('\n');
+  let document = {
+    getWordRangeAtPosition: (position: vscode.Position, regex: RegExp) => {
+      let match = Array.from(lines[position.line].matchAll(new RegExp(regex.source, 'g'))).find(
+        (m) =>
+          (m.index || 0) <= position.character &&
+          position.character <= (m.index || 0) + m[0].length
+      );
+      if (match) {
+        let start = new vscode.Position(position.line, match.index || 0);
+        return new vscode.Range(start, start.translate(0, match[0].length));
+      }
+    },
+    getText: (range: vscode.Range) =>
+      lines[range.start.line].slice(range.start.character, range.end.character),
+  };
+  return (document as any) as vscode.TextDocument;
+};
+
+test('getRefAt', () => {
+  let document = documentWith('[[note#Heading]] [[#Heading|here]] #tag');
+  let refAt = (character: number) => getRefAt(document, new vscode.Position(0, character));
+  expect(refAt(4)).toMatchObject({ type: RefType.WikiLink, word: 'note', fragment: 'Heading' });
+  expect(refAt(4).range).toMatchObject({ start: { character: 2 }, end: { character: 6 } });
+  // a [[#Heading]] in the same note is a wiki-link, rather than a #tag
+  expect(refAt(20)).toMatchObject({ type: RefType.WikiLink, word: '', fragment: 'Heading' });
+  expect(refAt(20).range).toMatchObject({ start: { character: 19 }, end: { character: 19 } });
+  expect(refAt(37)).toMatchObject({ type: RefType.Tag, word: 'tag' });
+  expect(getRefAt(documentWith('plain text'), new vscode.Position(0, 2)).type).toEqual(
+    RefType.Null
+  );
+});
+
 test('Note._rawRangesForWord', () => {
   let w = {
     word: 'test.md',
@@ -144,7 +305,1474 @@ test('Note._rawRangesForWord', () => {
   ]);
 });
 
+test('Note._rawRangesForWord with [[target|label]]', () => {
+  let w = {
+    word: 'project-x',
+    hasExtension: false,
+    type: RefType.WikiLink,
+    range: undefined,
+  };
+  let note = Note.fromData('See [[project-x|the X project]] and [[project-x]].');
+  let ranges = note._rawRangesForWord(w);
+  expect(ranges).toMatchObject([
+    { start: { line: 0, character: 4 }, end: { line: 0, character: 31 } },
+    { start: { line: 0, character: 36 }, end: { line: 0, character: 49 } },
+  ]);
+});
+
 test('Note.tagSet', () => {
   let tags = Note.fromData(document).tagSet();
   expect(tags).toEqual(new Set(['#another_tag', '#tag']));
+  // the #heading of a [[note#heading]] wiki-link is not a tag
+  tags = Note.fromData('[[note#heading]] and [[note#^block-id|label]] #tag').tagSet();
+  expect(tags).toEqual(new Set(['#tag']));
+});
+
+let sections = `# Title
+
+## Some Heading!
+a paragraph with a block id ^para-1
+
+### Another Heading ###
+- list item ^item-2`;
+
+test('Note.headings', () => {
+  expect(Note.fromData(sections).headings()).toEqual([
+    { text: 'Title', level: 1, line: 0 },
+    { text: 'Some Heading!', level: 2, line: 2 },
+    { text: 'Another Heading', level: 3, line: 5 },
+  ]);
+});
+
+test('Note.blockIds', () => {
+  expect(Note.fromData(sections).blockIds()).toEqual([
+    { id: 'para-1', line: 3 },
+    { id: 'item-2', line: 6 },
+  ]);
+});
+
+test('Note.lineForFragment', () => {
+  let note = Note.fromData(sections);
+  expect(note.lineForFragment('Some Heading!')).toEqual(2);
+  expect(note.lineForFragment('some-heading')).toEqual(2);
+  expect(note.lineForFragment('another heading')).toEqual(5);
+  expect(note.lineForFragment('^item-2')).toEqual(6);
+  expect(note.lineForFragment('missing')).toBeUndefined();
+  expect(note.lineForFragment('^missing')).toBeUndefined();
+});
+
+test('Note.embedText', () => {
+  let note = Note.fromData(`---\ntags: [x]\n---\n${sections}`);
+  expect(note.embedText()).toEqual(sections);
+  expect(note.embedText('some-heading')).toEqual(
+    '## Some Heading!\na paragraph with a block id ^para-1\n\n### Another Heading ###\n- list item ^item-2'
+  );
+  expect(note.embedText('Another Heading')).toEqual('### Another Heading ###\n- list item ^item-2');
+  expect(note.embedText('^para-1')).toEqual('a paragraph with a block id');
+  expect(note.embedText('^item-2')).toEqual('- list item');
+  expect(note.embedText('missing')).toBeUndefined();
+});
+
+test('![[embeds]]', () => {
+  let note = Note.fromData('See ![[a note#^b]] and [[linked]].');
+  expect(
+    note.refCandidates.map((rc) => [rc.rawText, rc.refType, rc.range.start.character])
+  ).toEqual([
+    ['[[a note#^b]]', RefType.Embed, 5],
+    ['[[linked]]', RefType.WikiLink, 23],
+  ]);
+  // an embed is a link, so it is found by the same Ref as a [[wiki-link]]
+  let w = {
+    word: 'a note',
+    hasExtension: false,
+    type: RefType.WikiLink,
+    range: undefined,
+  };
+  expect(note._rawRangesForWord(w)).toMatchObject([
+    { start: { line: 0, character: 5 }, end: { line: 0, character: 18 } },
+  ]);
+});
+
+// build a parsed Note at fsPath without reading from the filesystem
+const noteAt = (fsPath: string, data: string): Note => {
+  let note = new Note(fsPath);
+  note.data = data;
+  note.parseData(false);
+  return note;
+};
+
+// add the notes to the NoteParser cache and index, the way hydrateCache does
+const indexNotes = (notes: Array<Note>) =>
+  notes.map((n) => {
+    NoteParser._notes[n.fsPath] = n;
+    NoteParser._index.update(n);
+  });
+
+test('editDistance', () => {
+  expect(editDistance('meeting', 'meeting')).toEqual(0);
+  expect(editDistance('meeting', 'meetings')).toEqual(1);
+  expect(editDistance('kitten', 'sitting')).toEqual(3);
+  expect(editDistance('', 'abc')).toEqual(3);
+});
+
+test('NoteDiagnostics.problemsFor', () => {
+  let notes = [
+    noteAt('/notes/index.md', '[[a.md]] [[missing]]\n[[dupe]]'),
+    noteAt('/notes/a.md', '[[index]]'),
+    noteAt('/notes/x/dupe.md', ''),
+    noteAt('/notes/y/dupe.md', ''),
+    noteAt('/notes/orphan.md', '[[orphan]]'),
+  ];
+  indexNotes(notes);
+  let problems = NoteDiagnostics.problemsFor(notes, true);
+  expect(problems.filter((p) => p.code == NoteDiagnosticCode.MissingNote)).toMatchObject([
+    {
+      fsPath: '/notes/index.md',
+      range: { start: { line: 0, character: 9 }, end: { line: 0, character: 20 } },
+    },
+  ]);
+  expect(problems.filter((p) => p.code == NoteDiagnosticCode.AmbiguousLink)).toMatchObject([
+    { fsPath: '/notes/index.md', range: { start: { line: 1, character: 0 } } },
+  ]);
+  // self-links do not count:
+  expect(
+    problems.filter((p) => p.code == NoteDiagnosticCode.OrphanNote).map((p) => p.fsPath)
+  ).toEqual(['/notes/orphan.md']);
+  expect(
+    NoteDiagnostics.problemsFor(notes, false).filter((p) => p.code == NoteDiagnosticCode.OrphanNote)
+  ).toEqual([]);
+  notes.map((n) => NoteParser.clearCacheFor(n.fsPath));
+});
+
+test('NoteDiagnostics.problemsFor with #fragments', () => {
+  let notes = [
+    noteAt('/notes/index.md', '[[a#Heading]] [[a#Missing]]\n[[a#^block]] [[a#^missing]]'),
+    noteAt('/notes/a.md', '## Heading\ntext ^block\n[[#Heading]] [[#Missing|here]]'),
+  ];
+  indexNotes(notes);
+  let problems = NoteDiagnostics.problemsFor(notes, false);
+  expect(problems).toMatchObject([
+    {
+      code: NoteDiagnosticCode.MissingAnchor,
+      range: { start: { line: 0, character: 14 } },
+      message: "No heading 'Missing' found in a.md",
+    },
+    {
+      code: NoteDiagnosticCode.MissingAnchor,
+      range: { start: { line: 1, character: 13 } },
+      message: "No block '^missing' found in a.md",
+    },
+    // a [[#Heading]] wiki-link is to the note it is in
+    {
+      fsPath: '/notes/a.md',
+      code: NoteDiagnosticCode.MissingAnchor,
+      range: { start: { line: 2, character: 13 } },
+      message: "No heading 'Missing' found in a.md",
+    },
+  ]);
+  notes.map((n) => NoteParser.clearCacheFor(n.fsPath));
+});
+
+test('NoteNames', () => {
+  let names = new NoteNames();
+  names.add('/notes/a/the-heat.md', ['Heat']);
+  names.add('/notes/b/the-heat.md', []);
+  names.add('/notes/new-idea.md', []);
+  expect(names.candidates('[[the-heat]]')).toEqual([
+    '/notes/a/the-heat.md',
+    '/notes/b/the-heat.md',
+  ]);
+  expect(names.candidates('[[../b/the-heat.md#Heading|label]]')).toEqual([
+    '/notes/a/the-heat.md',
+    '/notes/b/the-heat.md',
+  ]);
+  expect(names.candidates('[[heat]]')).toEqual(['/notes/a/the-heat.md']);
+  // the slug a [[wiki-link]] creates a note for in relativePaths mode
+  expect(names.candidates('[[../New Idea]]')).toEqual(['/notes/new-idea.md']);
+  expect(names.aliasesFor('/notes/a/the-heat.md')).toEqual(['Heat']);
+  names.remove('/notes/a/the-heat.md');
+  expect(names.candidates('[[heat]]')).toEqual([]);
+  expect(names.candidates('[[the-heat]]')).toEqual(['/notes/b/the-heat.md']);
+});
+
+test('NoteDiagnostics.problemsFor in relativePaths mode', () => {
+  NoteWorkspace.cfg = () => ({
+    ...NoteWorkspace.DEFAULT_CONFIG,
+    workspaceFilenameConvention: 'relativePaths' as any,
+  });
+  let notes = [
+    noteAt('/notes/a/index.md', '[[../b/New Idea]] [[note]] [[../b/note]] [[bee]]'),
+    noteAt('/notes/b/new-idea.md', ''),
+    noteAt('/notes/b/note.md', '---\naliases: [bee]\n---\n'),
+  ];
+  indexNotes(notes);
+  let problems = NoteDiagnostics.problemsFor(notes, false);
+  expect(problems.map((p) => [p.code, p.range.start.character])).toEqual([
+    [NoteDiagnosticCode.MissingNote, 18],
+  ]);
+  notes.map((n) => NoteParser.clearCacheFor(n.fsPath));
+});
+
+test('MarkdownCodeActionProvider.closestNoteFsPath', () => {
+  let paths = ['/notes/meetings.md', '/notes/project-x.md'];
+  expect(MarkdownCodeActionProvider.closestNoteFsPath('meeting', paths)).toEqual(
+    '/notes/meetings.md'
+  );
+  expect(MarkdownCodeActionProvider.closestNoteFsPath('project x', paths)).toEqual(
+    '/notes/project-x.md'
+  );
+  expect(MarkdownCodeActionProvider.closestNoteFsPath('zzz', paths)).toBeUndefined();
+});
+
+test('MarkdownHoverProvider.notePreview', () => {
+  let data = '# The Heat\n\nline 2\nline 3\nline 4';
+  expect(MarkdownHoverProvider.notePreview(data, '/notes/the-heat.md', 2)).toEqual(
+    '**The Heat**\n\n---\n\nline 2\nline 3\n\n…'
+  );
+  expect(MarkdownHoverProvider.notePreview(data, '/notes/the-heat.md', 0)).toEqual(
+    '**The Heat**'
+  );
+  expect(MarkdownHoverProvider.notePreview('no title', '/notes/the-heat-is-on.md', 10)).toEqual(
+    '**The Heat Is On**\n\n---\n\nno title'
+  );
+});
+
+test('MarkdownHoverProvider.tagSummary', () => {
+  let counts = { '/notes/a.md': 1, '/notes/b.md': 3, '/notes/c.md': 1 };
+  expect(MarkdownHoverProvider.tagSummary('#tag', counts, 2)).toEqual(
+    '**#tag** is used in 3 notes\n\n- b.md (3)\n- a.md (1)\n- …and 1 more'
+  );
+  expect(MarkdownHoverProvider.tagSummary('#tag', {}, 2)).toEqual('**#tag** is used in 0 notes');
+});
+
+let withFrontmatter = `---
+title: "The Heat: Is On"
+aliases: [heat, 'The Heat']
+tags:
+  - music
+  - '#80s'
+# a yaml comment, not a #tag or a heading
+---
+
+# Heading
+Body #inline`;
+
+test('MarkdownHoverProvider.tagCounts', () => {
+  let notes = [
+    noteAt('/notes/a.md', '#music and #music'),
+    noteAt('/notes/b.md', '---\ntags: [music]\n---\n#music'),
+    noteAt('/notes/c.md', '---\ntags: [music, jazz]\n---\nno inline tags'),
+    noteAt('/notes/d.md', '#musical'),
+  ];
+  indexNotes(notes);
+  let ref: Ref = { type: RefType.Tag, word: 'music', hasExtension: false, range: undefined };
+  expect(MarkdownHoverProvider.tagCounts(ref)).toEqual({
+    '/notes/a.md': 2,
+    '/notes/b.md': 2,
+    '/notes/c.md': 1,
+  });
+  notes.map((n) => NoteParser.clearCacheFor(n.fsPath));
+});
+
+test('parseFrontmatter', () => {
+  expect(parseFrontmatter(withFrontmatter)).toMatchObject({
+    title: 'The Heat: Is On',
+    aliases: ['heat', 'The Heat'],
+    tags: ['music', '80s'],
+    endLine: 7,
+  });
+  expect(parseFrontmatter('---\ntags: music, 80s # comment\nalias: heat\n---')).toMatchObject({
+    title: undefined,
+    aliases: ['heat'],
+    tags: ['music', '80s'],
+    endLine: 3,
+  });
+  expect(parseFrontmatter('# no frontmatter')).toBeUndefined();
+  expect(parseFrontmatter('---\nnever closed')).toBeUndefined();
+});
+
+test('Note frontmatter', () => {
+  let note = Note.fromData(withFrontmatter);
+  expect(note.title()).toEqual('The Heat: Is On');
+  expect(note.aliases()).toEqual(['heat', 'The Heat']);
+  expect(note.tagSet()).toEqual(new Set(['#music', '#80s', '#inline']));
+  expect(note.headings()).toEqual([{ text: 'Heading', level: 1, line: 9 }]);
+  expect(Note.fromData('# Heading\ntext').title()).toEqual('Heading');
+});
+
+test('NoteWorkspace.noteFsPathsForWikiLink with aliases', () => {
+  let paths = ['/notes/the-heat.md', '/notes/other.md'];
+  let aliasesFor = (p: string) => (p == '/notes/the-heat.md' ? ['heat'] : []);
+  let from = '/notes/index.md';
+  expect(NoteWorkspace.noteFsPathsForWikiLink('[[heat]]', from, paths, aliasesFor)).toEqual([
+    '/notes/the-heat.md',
+  ]);
+  expect(NoteWorkspace.noteFsPathsForWikiLink('[[heat]]', from, paths)).toEqual([]);
+
+  let orig = NoteWorkspace.useUniqueFilenames;
+  NoteWorkspace.useUniqueFilenames = () => false;
+  expect(NoteWorkspace.noteFsPathsForWikiLink('[[heat]]', from, paths, aliasesFor)).toEqual([
+    '/notes/the-heat.md',
+  ]);
+  NoteWorkspace.useUniqueFilenames = orig;
+});
+
+test('NoteWorkspace._workspaceFolderFor', () => {
+  let folders = ['/work', '/notes', '/notes/journal'];
+  expect(NoteWorkspace._workspaceFolderFor('/notes/a/note.md', folders)).toEqual('/notes');
+  expect(NoteWorkspace._workspaceFolderFor('/notes/journal/day.md', folders)).toEqual(
+    '/notes/journal'
+  );
+  expect(NoteWorkspace._workspaceFolderFor('/notes-old/note.md', folders)).toBeUndefined();
+  expect(NoteWorkspace._workspaceFolderFor('/work', folders)).toEqual('/work');
+});
+
+test('NoteWorkspace.noteFsPathsForWikiLink across workspace folders', () => {
+  let paths = ['/work/todo.md', '/notes/todo.md'];
+  let from = '/notes/index.md';
+  expect(NoteWorkspace.noteFsPathsForWikiLink('[[todo]]', from, paths)).toEqual(paths);
+
+  let origWorkspaceFolderFor = NoteWorkspace.workspaceFolderFor;
+  NoteWorkspace.workspaceFolderFor = (fsPath: string) =>
+    NoteWorkspace._workspaceFolderFor(fsPath, ['/work', '/notes']);
+  NoteWorkspace.cfg = () => ({
+    ...NoteWorkspace.DEFAULT_CONFIG,
+    allowLinksAcrossWorkspaceFolders: false,
+  });
+  expect(NoteWorkspace.noteFsPathsForWikiLink('[[todo]]', from, paths)).toEqual(['/notes/todo.md']);
+  NoteWorkspace.workspaceFolderFor = origWorkspaceFolderFor;
+});
+
+test('MarkdownHoverProvider.notePreview with frontmatter', () => {
+  expect(MarkdownHoverProvider.notePreview(withFrontmatter, '/notes/the-heat.md', 1)).toEqual(
+    '**The Heat: Is On**\n\n---\n\nBody #inline'
+  );
+});
+
+test('NoteIndex', () => {
+  let index = new NoteIndex();
+  let a = noteAt('/notes/a.md', '---\ntags: [music]\n---\n#music #80s/synth\n[[b]] [[b.md]]');
+  let b = noteAt('/notes/b.md', '#music and [[a#not-a-tag]]');
+  index.update(a);
+  index.update(b);
+  expect(index.distinctTags().sort()).toEqual(['#80s/synth', '#music']);
+  expect(index.notesForTag('#music')).toEqual(['/notes/a.md', '/notes/b.md']);
+  let fsPaths = (refs: Array<{ fsPath: string }>) => refs.map((r) => r.fsPath);
+  expect(fsPaths(index.tagRefs('#music'))).toEqual(['/notes/a.md', '/notes/b.md']);
+  expect(fsPaths(index.tagRefs('#80s'))).toEqual([]);
+  expect(fsPaths(index.tagRefs('#80s', true))).toEqual(['/notes/a.md']);
+  expect(fsPaths(index.linkRefs('b.md'))).toEqual(['/notes/a.md', '/notes/a.md']);
+  expect(fsPaths(index.linkRefs('a'))).toEqual(['/notes/b.md']);
+
+  // re-indexing a note only replaces its own entries
+  index.update(noteAt('/notes/a.md', '#80s'));
+  expect(index.distinctTags().sort()).toEqual(['#80s', '#music']);
+  expect(index.notesForTag('#music')).toEqual(['/notes/b.md']);
+  expect(index.linkRefs('b.md')).toEqual([]);
+  index.remove('/notes/b.md');
+  expect(index.distinctTags()).toEqual(['#80s']);
+  expect(index.linkRefs('a')).toEqual([]);
+});
+
+test('NoteParser._backlinksFor resolves links relative to their note', () => {
+  let notes = [
+    noteAt('/notes/a/note.md', 'a'),
+    noteAt('/notes/b/note.md', '---\naliases: [bee]\n---\nb'),
+    noteAt('/notes/a/index.md', '[[note]] [[../b/note.md]] [[bee]]'),
+    noteAt('/notes/index.md', '[[a/note]] [[b/note.md|B]]\n![[a/note]]'),
+  ];
+  notes.map((n) => {
+    NoteParser._notes[n.fsPath] = n;
+    NoteParser._index.update(n);
+  });
+  let backlinks = (fsPath: string) =>
+    NoteParser._backlinksFor(fsPath).map((ir) => `${ir.fsPath} ${ir.refCandidate.rawText}`);
+
+  let orig = NoteWorkspace.useUniqueFilenames;
+  NoteWorkspace.useUniqueFilenames = () => false;
+  expect(NoteParser.resolveWikiLink('[[../b/note.md]]', '/notes/a/index.md')).toEqual([
+    '/notes/b/note.md',
+  ]);
+  expect(backlinks('/notes/a/note.md')).toEqual([
+    '/notes/a/index.md [[note]]',
+    '/notes/index.md [[a/note]]',
+    '/notes/index.md [[a/note]]',
+  ]);
+  expect(backlinks('/notes/b/note.md')).toEqual([
+    '/notes/a/index.md [[../b/note.md]]',
+    '/notes/index.md [[b/note.md|B]]',
+    '/notes/a/index.md [[bee]]',
+  ]);
+  NoteWorkspace.useUniqueFilenames = orig;
+
+  // with uniqueFilenames, [[note]] is ambiguous, so it is a backlink to both notes
+  expect(backlinks('/notes/a/note.md')).toContain('/notes/a/index.md [[note]]');
+  expect(backlinks('/notes/b/note.md')).toContain('/notes/a/index.md [[note]]');
+  notes.map((n) => NoteParser.clearCacheFor(n.fsPath));
+});
+
+test('MarkdownRenameProvider.addWikiLinkEdits', async () => {
+  let notes = [
+    noteAt('/notes/old-name.md', 'see [[old-name#Below]]'),
+    noteAt('/notes/index.md', '[[old name]] [[other]]\n[[old-name.md#Heading|Old]]'),
+    noteAt('/notes/other.md', '[[index]]'),
+  ];
+  notes.map((n) => {
+    NoteParser._notes[n.fsPath] = n;
+    NoteParser._index.update(n);
+  });
+  // an open note with a link the index has not caught up with yet
+  let open = { uri: vscode.Uri.file('/notes/open.md'), getText: () => '\n [[old-name]]' };
+  (vscode.workspace as any).textDocuments = [open];
+  let origIsNoteFile = NoteWorkspace.isNoteFile;
+  NoteWorkspace.isNoteFile = () => true;
+  let editsIn = (edit: vscode.WorkspaceEdit) =>
+    edit.entries().map(([uri, edits]) => [
+      uri.fsPath,
+      edits.map((e) => `${e.range.start.line}:${e.range.start.character} ${e.newText}`),
+    ]);
+
+  let edit = new vscode.WorkspaceEdit();
+  await MarkdownRenameProvider.addWikiLinkEdits(edit, '/notes/old-name.md', '/notes/new-name.md');
+  expect(editsIn(edit)).toEqual([
+    ['/notes/old-name.md', ['0:4 [[new-name#Below]]']],
+    ['/notes/index.md', ['0:0 [[new name]]', '1:0 [[new-name.md#Heading|Old]]']],
+    ['/notes/open.md', ['1:1 [[new-name]]']],
+  ]);
+
+  // once the note has been renamed, its own links are edited at the new path
+  let renamed = true;
+  edit = new vscode.WorkspaceEdit();
+  await MarkdownRenameProvider.addWikiLinkEdits(
+    edit,
+    '/notes/old-name.md',
+    '/notes/new-name.md',
+    renamed
+  );
+  expect(editsIn(edit)[0]).toEqual(['/notes/new-name.md', ['0:4 [[new-name#Below]]']]);
+
+  (vscode.workspace as any).textDocuments = [];
+  NoteWorkspace.isNoteFile = origIsNoteFile;
+  notes.map((n) => NoteParser.clearCacheFor(n.fsPath));
+});
+
+test('MarkdownRenameProvider.onDidRenameFiles skips its own renames', async () => {
+  let notes = [noteAt('/notes/old-name.md', ''), noteAt('/notes/index.md', '[[old-name]]')];
+  notes.map((n) => {
+    NoteParser._notes[n.fsPath] = n;
+    NoteParser._index.update(n);
+  });
+  let origIsNoteFile = NoteWorkspace.isNoteFile;
+  NoteWorkspace.isNoteFile = () => true;
+  let origQueue = NoteWatcher.queue;
+  NoteWatcher.queue = jest.fn();
+  let origApplyEdit = vscode.workspace.applyEdit;
+  let applyEdit = jest.fn(async (edit: vscode.WorkspaceEdit) => true);
+  (vscode.workspace as any).applyEdit = applyEdit;
+  let oldUri = vscode.Uri.file('/notes/old-name.md');
+  let newUri = vscode.Uri.file('/notes/new-name.md');
+  let renameEvent = { files: [{ oldUri: oldUri, newUri: newUri }] };
+
+  // the RenameProvider rewrites the links in its edit, and the file event for it fires after
+  let document = {
+    ...documentWith('[[old-name]]'),
+    uri: vscode.Uri.file('/notes/index.md'),
+  } as vscode.TextDocument;
+  let edit = await new MarkdownRenameProvider().provideRenameEdits(
+    document,
+    new vscode.Position(0, 4),
+    'new name',
+    (undefined as any) as vscode.CancellationToken
+  );
+  expect(edit && edit.entries().map(([uri, edits]) => [uri.fsPath, edits[0].newText])).toEqual([
+    ['/notes/index.md', '[[new-name]]'],
+  ]);
+  await MarkdownRenameProvider.onDidRenameFiles(renameEvent);
+  expect(applyEdit).not.toHaveBeenCalled();
+  expect(NoteWatcher.queue).toHaveBeenCalledWith('/notes/new-name.md', NoteChange.Changed);
+
+  // renaming the same file in the Explorer does rewrite the links
+  await MarkdownRenameProvider.onDidRenameFiles(renameEvent);
+  expect(applyEdit).toHaveBeenCalledTimes(1);
+
+  NoteWorkspace.isNoteFile = origIsNoteFile;
+  NoteWatcher.queue = origQueue;
+  (vscode.workspace as any).applyEdit = origApplyEdit;
+  notes.map((n) => NoteParser.clearCacheFor(n.fsPath));
+});
+
+test('MarkdownRenameProvider.provideTagRenameEdits', async () => {
+  let dir = mkdtempSync(join(tmpdir(), 'notes-'));
+  let a = join(dir, 'a.md');
+  let b = join(dir, 'b.md');
+  writeFileSync(a, '---\ntags: [project/alpha]\n---\n#project here');
+  await NoteParser.updateCacheFor(a);
+  NoteParser._notes[b] = noteAt(b, '#project');
+  NoteParser._index.update(NoteParser._notes[b]);
+  // b is open, and has been edited since it was indexed
+  let open = { uri: vscode.Uri.file(b), getText: () => 'moved down\n#project/beta' };
+  (vscode.workspace as any).textDocuments = [open];
+  let origIsNoteFile = NoteWorkspace.isNoteFile;
+  NoteWorkspace.isNoteFile = () => true;
+
+  let ref: Ref = { type: RefType.Tag, word: 'project', hasExtension: false, range: undefined };
+  let edit = await MarkdownRenameProvider.provideTagRenameEdits(ref, 'work');
+  expect(
+    edit &&
+      edit.entries().map(([uri, edits]) => [
+        uri.fsPath,
+        edits.map((e) => `${e.range.start.line}:${e.range.start.character} ${e.newText}`),
+      ])
+  ).toEqual([
+    [a, ['3:0 #work', '1:7 work/alpha']],
+    [b, ['1:0 #work/beta']],
+  ]);
+
+  (vscode.workspace as any).textDocuments = [];
+  NoteWorkspace.isNoteFile = origIsNoteFile;
+  [a, b].map((p) => NoteParser.clearCacheFor(p));
+  unlinkSync(a);
+  rmdirSync(dir);
+});
+
+test('NoteParser.outgoingLinks', () => {
+  let notes = [
+    noteAt('/notes/a/note.md', 'a'),
+    noteAt('/notes/b/note.md', 'b'),
+    noteAt('/notes/heat.md', 'heat'),
+    noteAt('/notes/index.md', '[[heat]] [[note]]\n[[missing]] [[heat.md#x|the heat]] [[missing|M]]'),
+  ];
+  notes.map((n) => {
+    NoteParser._notes[n.fsPath] = n;
+    NoteParser._index.update(n);
+  });
+  let links = NoteParser.outgoingLinks(notes[3]).map((l) => [
+    l.target,
+    l.status,
+    l.fsPaths,
+    l.refCandidates.map((rc) => rc.rawText),
+  ]);
+  expect(links).toEqual([
+    ['heat', 'exists', ['/notes/heat.md'], ['[[heat]]', '[[heat.md#x|the heat]]']],
+    ['note', 'ambiguous', ['/notes/a/note.md', '/notes/b/note.md'], ['[[note]]']],
+    ['missing', 'missing', [], ['[[missing]]', '[[missing|M]]']],
+  ]);
+  notes.map((n) => NoteParser.clearCacheFor(n.fsPath));
+});
+
+test('formatDate', () => {
+  let date = new Date(2020, 5, 30);
+  expect(formatDate(date, 'YYYY-MM-DD')).toEqual('2020-06-30');
+  expect(formatDate(date, 'dddd, MMMM D YY')).toEqual('Tuesday, June 30 20');
+  expect(formatDate(date, 'ddd MMM M/D')).toEqual('Tue Jun 6/30');
+  expect(formatDate(date, 'GGGG-[W]WW [YYYY]')).toEqual('2020-W27 YYYY');
+  // Jan 1st 2021 is in the last ISO week of 2020
+  expect(formatDate(new Date(2021, 0, 1), 'GGGG-[W]WW, YYYY')).toEqual('2020-W53, 2021');
+  expect(isoWeek(new Date(2019, 11, 30))).toEqual({ year: 2020, week: 1 });
+});
+
+test('parseDate', () => {
+  expect(parseDate('2020-06-30', 'YYYY-MM-DD')).toEqual(new Date(2020, 5, 30));
+  expect(parseDate('june 30, 2020', 'MMMM D, YYYY')).toEqual(new Date(2020, 5, 30));
+  expect(parseDate('2020-06', 'YYYY-MM')).toEqual(new Date(2020, 5, 1));
+  expect(parseDate('2020-W53', 'GGGG-[W]WW')).toEqual(new Date(2020, 11, 28));
+  expect(parseDate('2020-06-30-x', 'YYYY-MM-DD')).toBeUndefined();
+  expect(parseDate('notes', 'YYYY-MM-DD')).toBeUndefined();
+  let slug = (text: string) => text.replace(/\W+/g, '-');
+  expect(parseDate('tue-jun-30-2020', 'ddd MMM D, YYYY', slug)).toEqual(new Date(2020, 5, 30));
+});
+
+test('PeriodicNotes', () => {
+  let date = new Date(2020, 5, 30);
+  expect(PeriodicNotes.filenameFor(Period.Daily, date, 'YYYY-MM-DD')).toEqual('2020-06-30.md');
+  expect(PeriodicNotes.filenameFor(Period.Weekly, date, 'GGGG-[W]WW')).toEqual('2020-w27.md');
+  expect(PeriodicNotes.filenameFor(Period.Monthly, date, 'MMMM YYYY')).toEqual('june-2020.md');
+  expect(PeriodicNotes.dateFromFilename(Period.Weekly, '2020-w27.md', 'GGGG-[W]WW')).toEqual(
+    new Date(2020, 5, 29)
+  );
+  expect(PeriodicNotes.dateFromFilename(Period.Monthly, 'june-2020.md', 'MMMM YYYY')).toEqual(
+    new Date(2020, 5, 1)
+  );
+  let daily = (filename: string) =>
+    PeriodicNotes.dateFromFilename(Period.Daily, filename, 'YYYY-MM-DD');
+  expect(daily('2020-06-30.md')).toEqual(date);
+  expect(daily('2020-6-30.md')).toBeUndefined();
+  expect(PeriodicNotes.add(Period.Monthly, new Date(2020, 11, 1), 1)).toEqual(new Date(2021, 0, 1));
+
+  let filenames = ['2020-06-01.md', 'index.md', '2020-06-29.md', '2020-07-02.md', '2020-07-09.md'];
+  let adjacent = (direction: 1 | -1) =>
+    PeriodicNotes.adjacent(Period.Daily, date, direction, filenames, 'YYYY-MM-DD');
+  expect(adjacent(-1)).toEqual('2020-06-29.md');
+  expect(adjacent(1)).toEqual('2020-07-02.md');
+});
+
+test('NoteTemplate', () => {
+  let context = {
+    title: 'Hot Wings',
+    date: new Date(2020, 5, 30),
+    fsPath: '/notes/food/hot-wings.md',
+    sourceFsPath: '/notes/index.md',
+  };
+  let template =
+    '# {{title}}\n\n{{slug}} [[{{date:dddd}}]] {{date}} {{other}}\nfrom [[{{source}}]]';
+  expect(NoteTemplate.render(template, context)).toEqual(
+    '# Hot Wings\n\nhot-wings [[Tuesday]] 2020-06-30 {{other}}\nfrom [[index]]'
+  );
+  expect(NoteTemplate.render('[[{{source}}]]', { ...context, sourceFsPath: undefined })).toEqual(
+    '[[]]'
+  );
+  // a $ in the title is not a replacement pattern
+  let dollars = { ...context, title: "Save $$ on $& $1 $` fees" };
+  expect(NoteTemplate.render('# {{title}}', dollars)).toEqual("# Save $$ on $& $1 $` fees");
+
+  let rendered = NoteTemplate.render(NoteTemplate.DEFAULT, context);
+  expect(NoteTemplate.cursor(rendered)).toEqual({ text: '# Hot Wings\n\n', offset: 13 });
+  expect(NoteTemplate.cursor('no cursor')).toEqual({ text: 'no cursor', offset: undefined });
+
+  let folderTemplates = { food: 'recipe.md', 'food/drinks': 'drink.md' };
+  let templateFor = (dir: string) =>
+    NoteTemplate._templateNameFor(dir, folderTemplates, 'note.md');
+  expect(templateFor('food')).toEqual('recipe.md');
+  expect(templateFor('food/drinks/hot')).toEqual('drink.md');
+  expect(templateFor('foods')).toEqual('note.md');
+  expect(templateFor('')).toEqual('note.md');
+});
+
+test('NoteWorkspace._noteFileNameFor', () => {
+  let date = new Date(2026, 9, 19, 12, 30);
+  let nameFor = (scheme: any, existing: Array<string> = []) =>
+    NoteWorkspace._noteFileNameFor(scheme, 'Hot Wings', date, existing);
+  expect(nameFor('slug')).toEqual('hot-wings.md');
+  expect(nameFor('id')).toEqual('202610191230.md');
+  expect(nameFor('idSlug')).toEqual('202610191230-hot-wings.md');
+  // ids are unique within the dir
+  expect(nameFor('id', ['202610191230-other.md', '202610191231.md'])).toEqual('202610191232.md');
+  expect(formatDate(date, 'YYYYMMDDHHmmss')).toEqual('20261019123000');
+
+  expect(NoteWorkspace.isNoteIdFilename('202610191230.md')).toBeTruthy();
+  expect(NoteWorkspace.isNoteIdFilename('202610191230-hot-wings.md')).toBeTruthy();
+  expect(NoteWorkspace.isNoteIdFilename('20261019123000 hot wings.md')).toBeTruthy();
+  expect(NoteWorkspace.isNoteIdFilename('2026101912301.md')).toBeFalsy();
+  expect(NoteWorkspace.isNoteIdFilename('2026-10-19.md')).toBeFalsy();
+});
+
+test('a note named by an id is linked to by its title', () => {
+  let notes = [
+    noteAt('/notes/202610191230.md', '# Hot Wings\n'),
+    noteAt('/notes/202610191231.md', '---\ntitle: Cold\naliases: [Ice]\n---\n'),
+    noteAt('/notes/hot.md', '# Hot Wings\n'),
+  ];
+  expect(notes.map((n) => n.aliases())).toEqual([['Hot Wings'], ['Ice', 'Cold'], []]);
+  let resolve = (link: string) =>
+    NoteWorkspace.noteFsPathsForWikiLink(
+      link,
+      '/notes/index.md',
+      notes.map((n) => n.fsPath),
+      (p) => notes.find((n) => n.fsPath == p)!.aliases()
+    );
+  expect(resolve('[[Hot Wings]]')).toEqual(['/notes/202610191230.md']);
+  expect(resolve('[[Cold]]')).toEqual(['/notes/202610191231.md']);
+  expect(resolve('[[202610191231]]')).toEqual(['/notes/202610191231.md']);
+});
+
+test('NoteWorkspace.noteFsPathForRelativeLink', () => {
+  let from = '/notes/journal/today.md';
+  let pathFor = (target: string) =>
+    NoteWorkspace.noteFsPathForRelativeLink(target, from, '/notes');
+  expect(pathFor('../projects/New Idea')).toEqual('/notes/projects/new-idea.md');
+  expect(pathFor('ideas/big ideas/the idea.md')).toEqual(
+    '/notes/journal/ideas/big ideas/the-idea.md'
+  );
+  expect(pathFor('Idea')).toEqual('/notes/journal/idea.md');
+  // not outside of the workspace folder
+  expect(pathFor('../../elsewhere/idea')).toBeUndefined();
+  expect(pathFor('/etc/idea')).toBeUndefined();
+  expect(pathFor('ideas/')).toBeUndefined();
+
+  // and the link resolves to the note it creates
+  let resolves = (link: string, to: string) =>
+    NoteWorkspace._wikiLinkResolvesToPath(link, from, to);
+  expect(resolves('[[../projects/new idea]]', pathFor('../projects/new idea')!)).toBeTruthy();
+  expect(resolves('[[../projects/To Do.md|x]]', '/notes/projects/to-do.md')).toBeTruthy();
+  expect(resolves('[[../projects/new idea]]', '/notes/new-idea.md')).toBeFalsy();
+});
+
+test('NoteGraph.build', () => {
+  let graph = NoteGraph.build([
+    noteAt('/notes/a/note.md', '# Note A\n#tag/b #tag/a [[heat]]'),
+    noteAt('/notes/b/note.md', 'b'),
+    noteAt('/notes/heat.md', '---\naliases: [hot]\n---\n[[heat]] [[index]]'),
+    noteAt('/notes/index.md', '[[heat]] [[hot]] [[note]] [[missing]]'),
+  ]);
+  expect(graph.nodes).toEqual([
+    { id: '/notes/a/note.md', label: 'Note A', backlinks: 0, tags: ['#tag/a', '#tag/b'] },
+    { id: '/notes/b/note.md', label: 'note', backlinks: 0, tags: [] },
+    { id: '/notes/heat.md', label: 'heat', backlinks: 2, tags: [] },
+    { id: '/notes/index.md', label: 'index', backlinks: 1, tags: [] },
+  ]);
+  // self-links, ambiguous links and missing notes are not edges
+  expect(graph.edges).toEqual([
+    { source: '/notes/a/note.md', target: '/notes/heat.md' },
+    { source: '/notes/heat.md', target: '/notes/index.md' },
+    { source: '/notes/index.md', target: '/notes/heat.md' },
+  ]);
+});
+
+test('NoteGraph.neighborhood', () => {
+  let node = (id: string) => ({ id: id, label: id, backlinks: 0, tags: [] });
+  let graph = {
+    nodes: ['a', 'b', 'c', 'd', 'e'].map(node),
+    edges: [
+      { source: 'a', target: 'b' },
+      { source: 'c', target: 'b' },
+      { source: 'c', target: 'd' },
+    ],
+  };
+  let ids = (hops: number) => NoteGraph.neighborhood(graph, 'a', hops).nodes.map((n) => n.id);
+  expect(ids(0)).toEqual(['a']);
+  expect(ids(1)).toEqual(['a', 'b']);
+  expect(ids(2)).toEqual(['a', 'b', 'c']);
+  expect(ids(5)).toEqual(['a', 'b', 'c', 'd']);
+  expect(NoteGraph.neighborhood(graph, 'a', 2).edges).toEqual(graph.edges.slice(0, 2));
+});
+
+test('Note.paragraphAt', () => {
+  let note = Note.fromData(
+    '# Heading\nfirst line\nsecond [[link]]\n\n- item\n  more [[link]]\n- other\n## Next'
+  );
+  expect(note.paragraphAt(2)).toEqual('first line\nsecond [[link]]');
+  expect(note.paragraphAt(1)).toEqual('first line\nsecond [[link]]');
+  expect(note.paragraphAt(0)).toEqual('# Heading');
+  expect(note.paragraphAt(5)).toEqual('- item\n  more [[link]]');
+  expect(note.paragraphAt(4)).toEqual('- item\n  more [[link]]');
+  expect(note.paragraphAt(6)).toEqual('- other');
+  expect(note.paragraphAt(3)).toEqual('');
+  expect(note.paragraphAt(99)).toEqual('');
+
+  // the lines are split once, until the data changes
+  expect(note.lines()).toBe(note.lines());
+  note.data = 'changed\r\nlines';
+  expect(note.lines()).toEqual(['changed', 'lines']);
+  expect(note.paragraphAt(0)).toEqual('changed\nlines');
+});
+
+test('Note.unlinkedMentions', () => {
+  let target = noteAt('/notes/the-heat.md', '---\naliases: [hot, Summer Heat]\n---\n# Heat Wave');
+  let names = target.mentionNames();
+  expect(names).toEqual(['Heat Wave', 'the heat', 'hot', 'Summer Heat']);
+
+  let note = noteAt(
+    '/notes/b.md',
+    '---\ntitle: The Heat\n---\nthe Heat wave, not [[the-heat]] or [[x|the heat]]\n' +
+      '`the heat` The  Heat is hot. heat waves\n\n    the heat in code'
+  );
+  let mentions = note.unlinkedMentions(names).map((r) => [
+    r.start.line,
+    r.start.character,
+    r.end.character,
+  ]);
+  expect(mentions).toEqual([
+    [3, 0, 8],
+    [4, 11, 20],
+    [4, 24, 27],
+  ]);
+  expect(note.unlinkedMentions([])).toEqual([]);
+});
+
+test('NoteWorkspace.wikiLinkForMention', () => {
+  let from = '/notes/index.md';
+  let to = '/notes/the-heat.md';
+  expect(NoteWorkspace.wikiLinkForMention('The Heat', from, to)).toEqual(
+    '[[the-heat.md|The Heat]]'
+  );
+  NoteWorkspace.cfg = () => ({
+    ...NoteWorkspace.DEFAULT_CONFIG,
+    noteCompletionConvention: 'toSpaces' as any,
+  });
+  expect(NoteWorkspace.wikiLinkForMention('the heat', from, to)).toEqual('[[the heat]]');
+  NoteWorkspace.cfg = () => ({
+    ...NoteWorkspace.DEFAULT_CONFIG,
+    workspaceFilenameConvention: 'relativePaths' as any,
+  });
+  expect(NoteWorkspace.wikiLinkForMention('the heat', '/notes/a/b.md', to)).toEqual(
+    '[[../the-heat.md|the heat]]'
+  );
+});
+
+test('nested tags', () => {
+  let note = Note.fromData('#project/alpha/design and #project, not #a/ or [[x#y/z]]');
+  expect(note.tagSet()).toEqual(new Set(['#project/alpha/design', '#project', '#a']));
+
+  let ref = { type: RefType.Tag, word: 'project', hasExtension: null, range: undefined };
+  expect(note._rawRangesForWord(ref).map((r) => r.start.character)).toEqual([26]);
+  let includeNestedTags = true;
+  expect(note._rawRangesForWord(ref, includeNestedTags).map((r) => r.start.character)).toEqual([
+    0,
+    26,
+  ]);
+  ref.word = 'proj';
+  expect(note._rawRangesForWord(ref, includeNestedTags)).toEqual([]);
+});
+
+test('NoteWorkspace.childTags', () => {
+  let tags = ['#project/alpha/design', '#project', '#project/beta', '#music'];
+  expect(NoteWorkspace.childTags(undefined, tags)).toEqual(['#project', '#music']);
+  expect(NoteWorkspace.childTags('#project', tags)).toEqual(['#project/alpha', '#project/beta']);
+  expect(NoteWorkspace.childTags('#project/alpha', tags)).toEqual(['#project/alpha/design']);
+  expect(NoteWorkspace.childTags('#proj', tags)).toEqual([]);
+  expect(NoteWorkspace.tagIsOrDescendsFrom('#project/alpha', '#project')).toBeTruthy();
+  expect(NoteWorkspace.tagIsOrDescendsFrom('#projects', '#project')).toBeFalsy();
+});
+
+test('TagsTreeDataProvider.childTags', () => {
+  let [a, b, c, d, e] = ['a', 'b', 'c', 'd', 'e'].map((n) => noteAt(`/notes/${n}.md`, ''));
+  let byTag = {
+    '#project': [a],
+    '#project/alpha/design': [b],
+    '#project/beta': [b, c],
+    '#music': [d],
+    '#Zen': [e],
+  };
+  let childTags = (parent: string | undefined, sortOrder: TagSortOrder) =>
+    TagsTreeDataProvider.childTags(parent, byTag, sortOrder);
+  expect(childTags(undefined, TagSortOrder.Alphabetical)).toEqual(['#music', '#project', '#Zen']);
+  // the notes under #project include those with its nested tags, ties are alphabetical
+  expect(childTags(undefined, TagSortOrder.Count)).toEqual(['#project', '#music', '#Zen']);
+  expect(childTags('#project', TagSortOrder.Alphabetical)).toEqual([
+    '#project/alpha',
+    '#project/beta',
+  ]);
+  expect(childTags('#project', TagSortOrder.Count)).toEqual(['#project/beta', '#project/alpha']);
+  expect(childTags('#project/alpha', TagSortOrder.Count)).toEqual(['#project/alpha/design']);
+  expect(TagsTreeDataProvider.notesUnder('#project', byTag)).toEqual([a, b, c]);
+  expect(TagsTreeDataProvider.notesUnder('#project/alpha', byTag)).toEqual([b]);
+  expect(TagsTreeDataProvider.notesUnder('#proj', byTag)).toEqual([]);
+});
+
+test('MarkdownRenameProvider.frontmatterTagEdits', () => {
+  let data = [
+    '---',
+    'title: project notes # not a #project tag',
+    'tags: [project, "#project/alpha", projects]',
+    'tag:',
+    '  - project/beta # a comment',
+    '---',
+    '# project',
+  ].join('\n');
+  expect(frontmatterTags(data)).toEqual([
+    { tag: 'project', line: 2, start: 7, end: 14 },
+    { tag: 'project/alpha', line: 2, start: 18, end: 31 },
+    { tag: 'projects', line: 2, start: 34, end: 42 },
+  ]);
+  expect(MarkdownRenameProvider.frontmatterTagEdits(data, '#project', '#work')).toEqual([
+    { tag: { tag: 'project', line: 2, start: 7, end: 14 }, newText: 'work' },
+    { tag: { tag: 'project/alpha', line: 2, start: 18, end: 31 }, newText: 'work/alpha' },
+  ]);
+
+  let block = '---\ntags:\n  - project/beta # a comment\n- 80s\n---\n';
+  expect(MarkdownRenameProvider.frontmatterTagEdits(block, '#project', '#work')).toEqual([
+    { tag: { tag: 'project/beta', line: 2, start: 4, end: 16 }, newText: 'work/beta' },
+  ]);
+  expect(frontmatterTags('---\ntags: music, 80s\n---').map((t) => t.tag)).toEqual([
+    'music',
+    '80s',
+  ]);
+  expect(frontmatterTags('# no frontmatter\ntags: [project]')).toEqual([]);
+});
+
+test('MarkdownRenameProvider.renamedTag', () => {
+  expect(MarkdownRenameProvider.renamedTag('#project', '#project', '#work')).toEqual('#work');
+  expect(MarkdownRenameProvider.renamedTag('#project/alpha', '#project', '#work/x')).toEqual(
+    '#work/x/alpha'
+  );
+  expect(MarkdownRenameProvider.tagForRename('a/b')).toEqual('#a/b');
+  expect(() => MarkdownRenameProvider.tagForRename('a/')).toThrow();
+});
+
+test('tokenizeMarkdown', () => {
+  let lines = (data: string) => tokenizeMarkdown(data).map((ml) => ml.text);
+  expect(lines('a `#x [[y]]` b ``c ` d`` e')).toEqual(['a            b           e']);
+  expect(lines('unclosed ` #tag')).toEqual(['unclosed ` #tag']);
+  expect(lines('a <!-- #x\n[[y]] --> #z')).toEqual(['a        ', '          #z']);
+  expect(lines('[text](https://x.com/a_(b)#L42) #z')).toEqual([
+    '[text](                       ) #z',
+  ]);
+  expect(lines('see https://x.com/page#L42. <http://y.com#a> #z')).toEqual([
+    'see                       .                  #z',
+  ]);
+  expect(lines('[ref]: https://x.com#a')).toEqual(['[ref]:                ']);
+  expect(lines('## Title #tag')).toEqual(['   Title #tag']);
+
+  let fenced = '#a\n```c\n#include <x>\n```\n#b\n~~~\n[[c]]';
+  expect(tokenizeMarkdown(fenced).map((ml) => ml.inCodeBlock)).toEqual([
+    false,
+    true,
+    true,
+    true,
+    false,
+    true,
+    true,
+  ]);
+
+  let indented = 'text\n    #notcode\n\n    #code\n\n- item\n\n    #notcode';
+  expect(tokenizeMarkdown(indented).map((ml) => ml.inCodeBlock)).toEqual([
+    false,
+    false,
+    false,
+    true,
+    false,
+    false,
+    false,
+    false,
+  ]);
+});
+
+test('Note ignores wiki-links and tags in code, comments and URLs', () => {
+  let data = [
+    '# Title #real [[real]]',
+    '`[[x]]` [[`y`]] <!-- #z -->',
+    '```c',
+    '#include <stdio.h>',
+    '# not a heading',
+    '```',
+    'https://github.com/a/b#L42',
+  ].join('\n');
+  let note = Note.fromData(data);
+  expect(note.tagSet()).toEqual(new Set(['#real']));
+  expect(note.refCandidates.map((rc) => rc.rawText)).toEqual(['#real', '[[real]]']);
+  expect(note.headings().map((h) => h.text)).toEqual(['Title #real [[real]]']);
+});
+
+test('NoteWatcher.applyChanges', async () => {
+  let dir = mkdtempSync(join(tmpdir(), 'notes-'));
+  let a = join(dir, 'a.md');
+  let b = join(dir, 'b.md');
+  writeFileSync(a, '#created');
+  await NoteWatcher.applyChanges(new Map([[a, NoteChange.Changed]]));
+  expect(NoteParser._notes[a].tagSet()).toEqual(new Set(['#created']));
+
+  writeFileSync(a, '#edited');
+  await NoteWatcher.applyChanges(new Map([[a, NoteChange.Changed]]));
+  expect(NoteParser._notes[a].tagSet()).toEqual(new Set(['#edited']));
+
+  // b was created and deleted again before the changes were applied
+  await NoteWatcher.applyChanges(new Map([[b, NoteChange.Changed]]));
+  expect(NoteParser._notes[b]).toBeUndefined();
+
+  unlinkSync(a);
+  await NoteWatcher.applyChanges(new Map([[a, NoteChange.Deleted]]));
+  expect(NoteParser._notes[a]).toBeUndefined();
+  rmdirSync(dir);
+});
+
+test('NoteWatcher.flush applies 1 batch at a time', async () => {
+  let origApplyChanges = NoteWatcher.applyChanges;
+  let origFireIndexChanged = NoteWatcher.fireIndexChanged;
+  let log: Array<string> = [];
+  NoteWatcher.applyChanges = async (changes: Map<string, NoteChange>) => {
+    let fsPaths = Array.from(changes.keys()).join(',');
+    log.push(`start ${fsPaths}`);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    log.push(`end ${fsPaths}`);
+  };
+  NoteWatcher.fireIndexChanged = () => log.push('fired');
+
+  NoteWatcher._pending.set('/notes/a.md', NoteChange.Changed);
+  let first = NoteWatcher.flush();
+  await new Promise((resolve) => setTimeout(resolve, 1));
+  NoteWatcher._pending.set('/notes/b.md', NoteChange.Changed);
+  NoteWatcher._pending.set('/notes/c.md', NoteChange.Deleted);
+  let second = NoteWatcher.flush();
+  // nothing is left to apply
+  let third = NoteWatcher.flush();
+  await Promise.all([first, second, third]);
+  expect(log).toEqual([
+    'start /notes/a.md',
+    'end /notes/a.md',
+    'fired',
+    'start /notes/b.md,/notes/c.md',
+    'end /notes/b.md,/notes/c.md',
+    'fired',
+  ]);
+
+  NoteWatcher.applyChanges = origApplyChanges;
+  NoteWatcher.fireIndexChanged = origFireIndexChanged;
+});
+
+// just enough of markdown-it to run the inline rule of the MarkdownPreview plugin:
+// the text around the wiki-links and embeds is rendered as it is
+const fakeMarkdownIt = (): MarkdownIt => {
+  type Token = { type: string; content: string };
+  let rule: (state: any, silent: boolean) => boolean = () => false;
+  let md = {
+    inline: { ruler: { before: (_before: string, _name: string, r: typeof rule) => (rule = r) } },
+    renderer: { rules: {} as Record<string, (...args: Array<any>) => string> },
+    render: (src: string, env: any = {}) => {
+      let tokens: Array<Token> = [];
+      let text = '';
+      let pushText = () => {
+        if (text) {
+          tokens.push({ type: 'text', content: text });
+          text = '';
+        }
+      };
+      let push = (type: string) => {
+        pushText();
+        let token = { type: type, content: '' };
+        tokens.push(token);
+        return token;
+      };
+      let state = { src: src, pos: 0, posMax: src.length, push: push };
+      while (state.pos < src.length) {
+        if (!rule(state, false)) {
+          text += src[state.pos];
+          state.pos += 1;
+        }
+      }
+      pushText();
+      let renderToken = (t: Token, i: number) =>
+        t.type == 'text' ? t.content : md.renderer.rules[t.type](tokens, i, {}, env);
+      return tokens.map(renderToken).join('');
+    },
+  };
+  return MarkdownPreview.extendMarkdownIt(md as MarkdownIt);
+};
+
+test('MarkdownPreview', () => {
+  let notes = [
+    noteAt('/notes/index.md', ''),
+    noteAt('/notes/a.md', '# A\nembeds ![[b]]\n## Some Section\nin the section'),
+    noteAt('/notes/b.md', 'b embeds ![[a]] back'),
+    noteAt('/notes/c1.md', 'c1 ![[c2]]'),
+    noteAt('/notes/c2.md', 'c2 ![[c3]]'),
+    noteAt('/notes/c3.md', 'c3'),
+  ];
+  indexNotes(notes);
+  // MarkdownPreview.readNote reads the notes from their (open) documents
+  (vscode.workspace as any).textDocuments = notes.map((n) => ({
+    uri: vscode.Uri.file(n.fsPath),
+    getText: () => n.data,
+  }));
+  let md = fakeMarkdownIt();
+  let env = { currentDocument: vscode.Uri.file('/notes/index.md') };
+  let render = (src: string) => md.render(src, env);
+  let missing = (message: string) => `<div class="markdown-notes-embed missing">${message}</div>`;
+
+  expect(render('see [[a]], or [ [not a link]]')).toEqual(
+    'see <a class="markdown-notes-wiki-link" href="a.md">a</a>, or [ [not a link]]'
+  );
+  expect(render('[[a#Some Section|the section]] [[b#^block]]')).toEqual(
+    '<a class="markdown-notes-wiki-link" href="a.md#some-section">the section</a> ' +
+      '<a class="markdown-notes-wiki-link" href="b.md">b#^block</a>'
+  );
+  expect(render('[[missing <b>]]')).toEqual(
+    '<span class="markdown-notes-wiki-link missing" title="missing &lt;b&gt; does not exist">' +
+      'missing &lt;b&gt;</span>'
+  );
+  expect(render('[[a|<i>"A"</i> & co]]')).toEqual(
+    '<a class="markdown-notes-wiki-link" href="a.md">&lt;i&gt;&quot;A&quot;&lt;/i&gt; &amp; co</a>'
+  );
+  expect(render('![[missing]]')).toEqual(missing('![[missing]]: the note does not exist'));
+  expect(render('![[a#Nope]]')).toEqual(missing('![[a#Nope]]: #Nope does not exist'));
+  expect(render('![[index]]')).toEqual(
+    missing('![[index]]: not embedded again, since it embeds itself')
+  );
+  // a embeds b, which embeds a again
+  expect(render('![[a#Some Section]]')).toEqual(
+    '<div class="markdown-notes-embed">## Some Section\nin the section</div>'
+  );
+  expect(render('![[a]]')).toEqual(
+    '<div class="markdown-notes-embed"># A\nembeds <div class="markdown-notes-embed">b embeds ' +
+      missing('![[a]]: not embedded again, since it embeds itself') +
+      ' back</div>\n## Some Section\nin the section</div>'
+  );
+
+  let origMaxEmbedDepth = MarkdownPreview.MAX_EMBED_DEPTH;
+  MarkdownPreview.MAX_EMBED_DEPTH = 2;
+  expect(render('![[c1]]')).toEqual(
+    '<div class="markdown-notes-embed">c1 <div class="markdown-notes-embed">c2 ' +
+      missing('![[c3]]: embeds are nested too deeply') +
+      '</div></div>'
+  );
+  MarkdownPreview.MAX_EMBED_DEPTH = origMaxEmbedDepth;
+
+  (vscode.workspace as any).textDocuments = [];
+  notes.map((n) => NoteParser.clearCacheFor(n.fsPath));
+});
+
+test('BacklinksTreeDataProvider filterFiles and sortFiles', () => {
+  let location = (fsPath: string, line: number) =>
+    ({
+      uri: vscode.Uri.file(fsPath),
+      range: new vscode.Range(line, 0, line, 1),
+    } as vscode.Location);
+  let lines: Record<string, Array<string>> = {
+    '/notes/a.md': ['see [[x]]', 'Meeting about [[x]]'],
+    '/notes/b.md': ['[[x]] 1', '[[x]] 2', '[[x]] 3'],
+    '/notes/meetings.md': ['[[x]]'],
+  };
+  let lineAt = (l: vscode.Location) => lines[l.uri.fsPath][l.range.start.line];
+  let files = () =>
+    BacklinksTreeDataProvider.locationListToTree(
+      [
+        location('/notes/b.md', 2),
+        location('/notes/meetings.md', 0),
+        location('/notes/a.md', 1),
+        location('/notes/b.md', 0),
+        location('/notes/a.md', 0),
+        location('/notes/b.md', 1),
+      ],
+      (p) => p.replace('/notes/', '')
+    );
+  let summary = (fwls: Array<FileWithLocations>) =>
+    fwls.map((fwl) => `${fwl.file}:${fwl.locations.map((l) => l.range.start.line).join(',')}`);
+
+  let mtimes: Record<string, number> = { '/notes/a.md': 1, '/notes/b.md': 2 };
+  let sorted = (sortOrder: BacklinkSortOrder) =>
+    summary(BacklinksTreeDataProvider.sortFiles(files(), sortOrder, (p) => mtimes[p] || 0));
+  expect(sorted(BacklinkSortOrder.Name)).toEqual(['a.md:0,1', 'b.md:0,1,2', 'meetings.md:0']);
+  expect(sorted(BacklinkSortOrder.Modified)).toEqual([
+    'b.md:0,1,2',
+    'a.md:0,1',
+    'meetings.md:0',
+  ]);
+  mtimes['/notes/meetings.md'] = 3;
+  expect(sorted(BacklinkSortOrder.Modified)).toEqual([
+    'meetings.md:0',
+    'b.md:0,1,2',
+    'a.md:0,1',
+  ]);
+  expect(sorted(BacklinkSortOrder.Count)).toEqual(['b.md:0,1,2', 'a.md:0,1', 'meetings.md:0']);
+
+  let filtered = (filter: string) =>
+    summary(BacklinksTreeDataProvider.filterFiles(files(), filter, lineAt));
+  expect(filtered('')).toEqual(['a.md:0,1', 'b.md:0,1,2', 'meetings.md:0']);
+  // every location in a file whose path matches, and the matching lines in the others
+  expect(filtered('MEETING')).toEqual(['a.md:1', 'meetings.md:0']);
+  expect(filtered('] 2')).toEqual(['b.md:1']);
+  expect(filtered('nowhere')).toEqual([]);
+});
+
+// the layout of the Note Graph webview, which is plain JavaScript
+const graphLayout = require('../../../media/graphLayout');
+
+// the same nodes on every run
+const randomNodes = (n: number, spread: number) => {
+  let seed = 42;
+  let random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  return Array.from(Array(n), () => ({
+    x: (random() - 0.5) * spread,
+    y: (random() - 0.5) * spread,
+    vx: 0,
+    vy: 0,
+  }));
+};
+
+test('graphLayout.quadtree', () => {
+  let nodes = randomNodes(100, 1000);
+  // nodes on the same spot
+  let same = [0, 1, 2].map(() => ({ x: 10, y: 10, vx: 0, vy: 0 }));
+  nodes = nodes.concat(same);
+  let root = graphLayout.quadtree(nodes);
+  expect(root.mass).toEqual(nodes.length);
+  let mean = (xs: Array<number>) => xs.reduce((a, b) => a + b, 0) / xs.length;
+  expect(root.cx).toBeCloseTo(mean(nodes.map((n) => n.x)));
+  expect(root.cy).toBeCloseTo(mean(nodes.map((n) => n.y)));
+
+  // every node is in exactly 1 leaf, which contains it,
+  // and only the nodes on the same spot share a leaf (at the MAX_DEPTH)
+  let leaves: Array<any> = [];
+  let walk = (quad: any, depth: number) => {
+    if (quad.children) {
+      expect(quad.nodes).toEqual([]);
+      expect(quad.mass).toEqual(quad.children.reduce((m: number, c: any) => m + c.mass, 0));
+      quad.children.map((c: any) => walk(c, depth + 1));
+    } else if (quad.nodes.length > 0) {
+      leaves.push({ quad: quad, depth: depth });
+    }
+  };
+  walk(root, 0);
+  let inLeaves = leaves.map((l) => l.quad.nodes).reduce((a, b) => a.concat(b), []);
+  expect(new Set(inLeaves)).toEqual(new Set(nodes));
+  expect(inLeaves.length).toEqual(nodes.length);
+  leaves.map(({ quad }) =>
+    quad.nodes.map((n: any) => {
+      expect(n.x >= quad.x && n.x < quad.x + quad.size).toBeTruthy();
+      expect(n.y >= quad.y && n.y < quad.y + quad.size).toBeTruthy();
+    })
+  );
+  let shared = leaves.filter((l) => l.quad.nodes.length > 1);
+  expect(shared.map((l) => [l.quad.nodes, l.depth])).toEqual([[same, graphLayout.MAX_DEPTH]]);
+});
+
+test('graphLayout.repulse approximates the repulsion of every other node', () => {
+  let nodes = randomNodes(300, 1000);
+  let alpha = 1;
+  let exact = nodes.map((a) => {
+    let f = { x: a.x, y: a.y, vx: 0, vy: 0 };
+    nodes.filter((b) => b !== a).map((b) => graphLayout.push(f, b.x - a.x, b.y - a.y, 1, alpha));
+    return f;
+  });
+  let root = graphLayout.quadtree(nodes);
+  nodes.map((a) => graphLayout.repulse(root, a, alpha));
+  let error = 0;
+  let total = 0;
+  nodes.map((a, i) => {
+    error += Math.hypot(a.vx - exact[i].vx, a.vy - exact[i].vy);
+    total += Math.hypot(exact[i].vx, exact[i].vy);
+  });
+  expect(error / total).toBeLessThan(0.05);
+});
+
+test('graphLayout.step', () => {
+  let [a, b, c, d] = [
+    { x: -200, y: 0 },
+    { x: 200, y: 0 },
+    // on the same spot as each other
+    { x: 0, y: 50 },
+    { x: 0, y: 50 },
+  ].map((p) => ({ ...p, vx: 0, vy: 0 }));
+  let nodes = [a, b, c, d];
+  let edges = [{ source: a, target: b }];
+  let alpha = 1;
+  for (let i = 0; i < 300; i++) {
+    graphLayout.step(nodes, edges, alpha, d);
+    alpha *= 0.99;
+  }
+  nodes.map((n) => {
+    expect(Number.isFinite(n.x) && Number.isFinite(n.y)).toBeTruthy();
+  });
+  // the fixed node does not move, the linked nodes are pulled together,
+  // and the others are pushed away from it
+  expect([d.x, d.y]).toEqual([0, 50]);
+  let distance = (m: any, n: any) => Math.hypot(m.x - n.x, m.y - n.y);
+  expect(distance(a, b)).toBeGreaterThan(graphLayout.SPRING_LENGTH);
+  expect(distance(a, b)).toBeLessThan(graphLayout.SPRING_LENGTH * 2);
+  expect(distance(c, d)).toBeGreaterThan(graphLayout.SPRING_LENGTH);
+});
+
+test('NoteIndexStore round trip', () => {
+  let note = noteAt('/notes/a.md', '---\ntitle: A\n---\n# Heading #tag\n[[b#x]] ^block');
+  note.stat = { mtimeMs: 1, size: 2 };
+  let unread = new Note('/notes/unread.md');
+  let json = NoteIndexStore.stringify([note, unread]);
+  let persisted = NoteIndexStore.parse(json);
+  expect(Object.keys(persisted)).toEqual(['/notes/a.md']);
+
+  let restored = Note.deserialize('/notes/a.md', persisted['/notes/a.md']);
+  expect(restored.data).toBeUndefined();
+  expect(restored.isParsed()).toBeTruthy();
+  expect(restored.stat).toEqual({ mtimeMs: 1, size: 2 });
+  expect(restored.refCandidates).toEqual(note.refCandidates);
+  expect(restored.tagSet()).toEqual(new Set(['#tag']));
+  expect(restored.title()).toEqual('A');
+  expect(restored.lineForFragment('Heading #tag')).toEqual(3);
+  expect(restored.lineForFragment('^block')).toEqual(4);
+
+  let outdated = json.replace(
+    `"version":${NoteIndexStore.SCHEMA_VERSION}`,
+    `"version":${NoteIndexStore.SCHEMA_VERSION - 1}`
+  );
+  expect(NoteIndexStore.parse(outdated)).toEqual({});
+});
+
+test('a Note restored from the NoteIndexStore', async () => {
+  let dir = mkdtempSync(join(tmpdir(), 'notes-'));
+  let fsPath = join(dir, 'a.md');
+  writeFileSync(fsPath, '# A\n[[b]] #tag');
+  let stats = statSync(fsPath);
+  let note = noteAt(fsPath, '# A\n[[b]] #tag');
+  note.stat = { mtimeMs: stats.mtimeMs, size: stats.size };
+  let persisted = NoteIndexStore.parse(NoteIndexStore.stringify([note]));
+  let restored = Note.deserialize(fsPath, persisted[fsPath]);
+
+  // answers from its refCandidates, before its data has been read
+  let ref = { type: RefType.WikiLink, word: 'b', hasExtension: false, range: undefined };
+  expect(restored._rawRangesForWord(ref)).toMatchObject([
+    { start: { line: 1, character: 0 }, end: { line: 1, character: 5 } },
+  ]);
+
+  // and stays parsed (and saved) once it is read, as long as the file has not changed
+  await restored.readFile(true);
+  expect(restored.data).toEqual('# A\n[[b]] #tag');
+  expect(restored.isParsed()).toBeTruthy();
+  expect(restored.serialize()).toBeDefined();
+
+  writeFileSync(fsPath, '# A, longer\n[[c]]');
+  restored.data = undefined;
+  await restored.readFile(true);
+  expect(restored.isParsed()).toBeFalsy();
+  unlinkSync(fsPath);
+  rmdirSync(dir);
+});
+
+// a synthetic workspace of notes, each with a few links and tags:
+// the NoteIndex finds the same refs as scanning every note, before and after notes change
+test('NoteIndex matches a scan of every note', () => {
+  const N = 200;
+  let noteData = (i: number, salt: number) =>
+    [
+      `# Note ${i}`,
+      `#tag${(i + salt) % 7} #project/p${i % 3}/design`,
+      `See [[note-${(i + 1 + salt) % N}]] and [[note-${(i * 7) % N}.md]].`,
+    ].join('\n');
+  let notes: Array<Note> = [];
+  for (let i = 0; i < N; i++) {
+    notes.push(noteAt(`/notes/note-${i}.md`, noteData(i, 0)));
+  }
+  let index = new NoteIndex();
+  notes.map((note) => index.update(note));
+
+  let expectIndexMatchesScan = () => {
+    for (let q = 0; q < 10; q++) {
+      let link: Ref = {
+        type: RefType.WikiLink,
+        word: `note-${q}.md`,
+        hasExtension: true,
+        range: undefined,
+      };
+      let tag: Ref = {
+        type: RefType.Tag,
+        word: `tag${q % 7}`,
+        hasExtension: null,
+        range: undefined,
+      };
+      let scan = (ref: Ref) =>
+        notes
+          .map((note) =>
+            note._rawRangesForWord(ref).map((r) => `${note.fsPath} ${JSON.stringify(r)}`)
+          )
+          .reduce((all, r) => all.concat(r), []);
+      let indexed = (irs: Array<IndexedRef>) =>
+        irs.map((ir) => `${ir.fsPath} ${JSON.stringify(ir.refCandidate.range)}`);
+      expect(index.linkRefs(link.word).length).toBeGreaterThan(0);
+      expect(indexed(index.linkRefs(link.word)).sort()).toEqual(scan(link).sort());
+      expect(indexed(index.tagRefs(`#${tag.word}`)).sort()).toEqual(scan(tag).sort());
+    }
+  };
+  expectIndexMatchesScan();
+
+  // change a tenth of the notes
+  for (let i = 0; i < N / 10; i++) {
+    notes[i] = noteAt(notes[i].fsPath, noteData(i, 1));
+    index.update(notes[i]);
+  }
+  expectIndexMatchesScan();
+});
+
+// Benchmark: synthetic workspaces of 1k and 10k notes, each with a few links and tags,
+// and the same number of links and tags per name whatever the size of the workspace.
+// A query against the NoteIndex costs O(results), so it costs no more with 10k notes than 1k,
+// while scanning every note costs O(notes).
+test('NoteIndex benchmark, 10k notes', () => {
+  let workspace = (n: number): Array<Note> => {
+    let notes: Array<Note> = [];
+    for (let i = 0; i < n; i++) {
+      let data = [
+        `# Note ${i}`,
+        `#tag${Math.floor(i / 10)} #project/p${i % 10}/design`,
+        `See [[note-${(i + 1) % n}]] and [[note-${(i * 7) % n}.md]].`,
+      ].join('\n');
+      notes.push(noteAt(`/notes/note-${i}.md`, data));
+    }
+    return notes;
+  };
+  let indexOf = (notes: Array<Note>): NoteIndex => {
+    let index = new NoteIndex();
+    notes.map((note) => index.update(note));
+    return index;
+  };
+  let msFor = (fn: () => void): number => {
+    let start = process.hrtime();
+    fn();
+    let [seconds, nanoseconds] = process.hrtime(start);
+    return seconds * 1000 + nanoseconds / 1e6;
+  };
+  const QUERIES = 2000;
+  let queryMs = (index: NoteIndex): number =>
+    msFor(() => {
+      for (let q = 0; q < QUERIES; q++) {
+        index.linkRefs(`note-${q % 100}.md`);
+        index.tagRefs(`#tag${q % 100}`);
+      }
+    });
+
+  let small = indexOf(workspace(1000));
+  let notes = workspace(10000);
+  let large = indexOf(notes);
+  // warm up, so that the first run does not pay for the JIT
+  queryMs(small);
+  queryMs(large);
+  let smallMs = queryMs(small);
+  let largeMs = queryMs(large);
+
+  const SCANS = 10;
+  let scanned = 0;
+  let scanMs = msFor(() => {
+    for (let q = 0; q < SCANS; q++) {
+      let link: Ref = {
+        type: RefType.WikiLink,
+        word: `note-${q}.md`,
+        hasExtension: true,
+        range: undefined,
+      };
+      notes.map((note) => (scanned += note._rawRangesForWord(link).length));
+    }
+  });
+  let indexed = 0;
+  for (let q = 0; q < SCANS; q++) {
+    indexed += large.linkRefs(`note-${q}.md`).length;
+  }
+  expect(indexed).toEqual(scanned);
+
+  // with 10x the notes, a query costs about the same (with plenty of slack for a noisy machine),
+  // and a query against the index is far cheaper than a scan
+  expect(largeMs).toBeLessThan(smallMs * 4 + 5);
+  expect(largeMs / (QUERIES * 2)).toBeLessThan(scanMs / SCANS / 10);
+}, 60000);
+
+test('globToRegExp', () => {
+  expect(globToRegExp('**/node_modules/**').test('node_modules/a/b.md')).toBeTruthy();
+  expect(globToRegExp('**/node_modules/**').test('x/node_modules/b.md')).toBeTruthy();
+  expect(globToRegExp('archive/**').test('archive/2019/a.md')).toBeTruthy();
+  expect(globToRegExp('archive/**').test('notes/archive/a.md')).toBeFalsy();
+  expect(globToRegExp('*.md').test('a.md')).toBeTruthy();
+  expect(globToRegExp('*.md').test('x/a.md')).toBeFalsy();
+  expect(globToRegExp('**/*.{md,markdown}').test('x/y/a.markdown')).toBeTruthy();
+  expect(globToRegExp('**/*.{md,markdown}').test('a.md.bak')).toBeFalsy();
+  expect(globToRegExp('**/draft-[!0-9]?.md').test('a/draft-x1.md')).toBeTruthy();
+  expect(globToRegExp('**/draft-[!0-9]?.md').test('a/draft-11.md')).toBeFalsy();
+});
+
+test('NoteWorkspace._isNoteFile', () => {
+  let rx = NoteWorkspace.rxFileExtensions();
+  let excludes = ['**/node_modules/**', '**/.git', 'archive/**'];
+  let isNote = (p: string, includes: Array<string> = []) =>
+    NoteWorkspace._isNoteFile(p, rx, includes, excludes);
+  expect(isNote('notes/a.md')).toBeTruthy();
+  expect(isNote('notes/a.MARKDOWN')).toBeTruthy();
+  expect(isNote('notes/a.md.bak')).toBeFalsy();
+  expect(isNote('notes/a.mdx')).toBeTruthy();
+  expect(isNote('notes/a.fountain')).toBeTruthy();
+  expect(isNote('notes/a.txt')).toBeFalsy();
+  expect(isNote('node_modules/x/README.md')).toBeFalsy();
+  expect(isNote('.git/x.md')).toBeFalsy();
+  expect(isNote('archive/old.md')).toBeFalsy();
+  expect(isNote('notes/archive/old.md')).toBeTruthy();
+  expect(isNote('notes/a.md', ['notes/**'])).toBeTruthy();
+  expect(isNote('other/a.md', ['notes/**'])).toBeFalsy();
+});
+
+test('NoteWorkspace.rxFileExtensions from noteFileExtensions', () => {
+  let noteFileExtensions = ['.mdx', 'txt'];
+  NoteWorkspace.cfg = () => ({ ...NoteWorkspace.DEFAULT_CONFIG, noteFileExtensions });
+  expect(NoteWorkspace.rxFileExtensions().test('a.mdx')).toBeTruthy();
+  expect(NoteWorkspace.rxFileExtensions().test('a.md')).toBeFalsy();
+  expect(NoteWorkspace.noteFilesGlob()).toEqual('**/*.{mdx,txt}');
+  expect(NoteWorkspace.stripExtension('a.txt')).toEqual('a');
+  expect(titleCaseFilename('the-heat-is-on.txt', NoteWorkspace.rxFileExtensions())).toEqual(
+    'The Heat Is On'
+  );
+  NoteWorkspace.cfg = () => ({ ...NoteWorkspace.DEFAULT_CONFIG, noteFileExtensions: [] });
+  expect(NoteWorkspace.noteFilesGlob()).toEqual('**/*.{md,markdown,mdx,fountain}');
 });
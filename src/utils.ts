@@ -32,15 +32,247 @@ underneath unlike until up upon versus via with within without yet
     .join(' ');
 };
 
-// take some-filename-in-case to "Some Filename in Case" Title
-export const titleCaseFilename = (filename: string): string => {
+// take some-filename-in-case to "Some Filename in Case" Title,
+// without the extension, eg, NoteWorkspace.rxFileExtensions()
+export const titleCaseFilename = (
+  filename: string,
+  rxFileExtensions: RegExp = /\.(md|markdown)$/i
+): string => {
   if (!filename) {
     return filename;
   }
   return titleCase(
     filename
-      .replace(/\.(md|markdown)$/, '')
+      .replace(rxFileExtensions, '')
       .replace(/[-_]/gi, ' ')
       .replace(/\s+/, ' ')
   );
 };
+
+// Levenshtein distance: the number of single character insertions, deletions
+// or substitutions needed to turn string `a` into string `b`
+export const editDistance = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      let cost = a[i - 1] == b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+};
+
+// wrap `fn` so that calling it many times in a burst
+// only runs it once, `delayMs` after the last call
+export const debounce = (fn: () => void, delayMs: number): (() => void) => {
+  let timeout: NodeJS.Timeout | undefined;
+  return () => {
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+    timeout = setTimeout(() => {
+      timeout = undefined;
+      fn();
+    }, delayMs);
+  };
+};
+
+export const escapeRegExp = (s: string): string => s.replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
+
+// Convert a glob pattern, as used in `files.exclude` or `findFiles`, to a RegExp
+// that matches an entire relative path (with / separators):
+// - `**` matches any number of path segments
+// - `*` and `?` match within 1 segment
+// - `{a,b}` matches either alternative
+// - `[abc]` and `[!abc]` match 1 character (not) in the set
+export const globToRegExp = (glob: string): RegExp => {
+  let rx = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    let c = glob[i];
+    if (c == '*' && glob[i + 1] == '*') {
+      // **/ also matches no directory at all
+      if (glob[i + 2] == '/') {
+        rx += '(?:.*/)?';
+        i += 2;
+      } else {
+        rx += '.*';
+        i += 1;
+      }
+    } else if (c == '*') {
+      rx += '[^/]*';
+    } else if (c == '?') {
+      rx += '[^/]';
+    } else if (c == '{') {
+      braces++;
+      rx += '(?:';
+    } else if (c == '}' && braces > 0) {
+      braces--;
+      rx += ')';
+    } else if (c == ',' && braces > 0) {
+      rx += '|';
+    } else if (c == '[') {
+      let close = glob.indexOf(']', i + 1);
+      if (close == -1) {
+        rx += '\\[';
+      } else {
+        let set = glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        rx += `[${set}]`;
+        i = close;
+      }
+    } else {
+      rx += escapeRegExp(c);
+    }
+  }
+  return new RegExp(`^${rx}$`);
+};
+
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+// the tokens formatDate and parseDate understand (longest first), and [escaped text]
+const rxDateTokens = /\[([^\]]*)\]|YYYY|YY|GGGG|MMMM|MMM|MM|M|DD|D|dddd|ddd|WW|W|HH|mm|ss/g;
+
+const pad = (n: number, width = 2): string => `${n}`.padStart(width, '0');
+
+// the ISO 8601 week of `date`: weeks start on Monday,
+// and week 1 is the week with the year's first Thursday in it
+export const isoWeek = (date: Date): { year: number; week: number } => {
+  let thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  thursday.setDate(thursday.getDate() + 3 - ((thursday.getDay() + 6) % 7));
+  let firstJan = new Date(thursday.getFullYear(), 0, 1);
+  let days = Math.round((thursday.getTime() - firstJan.getTime()) / 86400000);
+  return { year: thursday.getFullYear(), week: Math.floor(days / 7) + 1 };
+};
+
+// the Monday of ISO `week` of ISO `year`
+const isoWeekStart = (year: number, week: number): Date => {
+  // Jan 4th is always in week 1
+  let jan4 = new Date(year, 0, 4);
+  let monday = new Date(year, 0, 4 - ((jan4.getDay() + 6) % 7));
+  monday.setDate(monday.getDate() + 7 * (week - 1));
+  return monday;
+};
+
+// format `date` with moment.js style tokens, eg,
+// 'YYYY-MM-DD' => '2020-06-30', 'GGGG-[W]WW' => '2020-W27', 'dddd, MMMM D' => 'Tuesday, June 30',
+// 'YYYYMMDDHHmm' => '202006301230'
+export const formatDate = (date: Date, format: string): string => {
+  let week = isoWeek(date);
+  return format.replace(rxDateTokens, (token: string, escaped?: string) => {
+    if (escaped !== undefined) {
+      return escaped;
+    }
+    switch (token) {
+      case 'YYYY':
+        return `${date.getFullYear()}`;
+      case 'YY':
+        return pad(date.getFullYear() % 100);
+      case 'GGGG':
+        return `${week.year}`;
+      case 'MMMM':
+        return MONTHS[date.getMonth()];
+      case 'MMM':
+        return MONTHS[date.getMonth()].slice(0, 3);
+      case 'MM':
+        return pad(date.getMonth() + 1);
+      case 'M':
+        return `${date.getMonth() + 1}`;
+      case 'DD':
+        return pad(date.getDate());
+      case 'D':
+        return `${date.getDate()}`;
+      case 'dddd':
+        return WEEKDAYS[date.getDay()];
+      case 'ddd':
+        return WEEKDAYS[date.getDay()].slice(0, 3);
+      case 'WW':
+        return pad(week.week);
+      case 'HH':
+        return pad(date.getHours());
+      case 'mm':
+        return pad(date.getMinutes());
+      case 'ss':
+        return pad(date.getSeconds());
+      default:
+        return `${week.week}`;
+    }
+  });
+};
+
+// The reverse of formatDate: the date `s` was formatted from, or undefined.
+// Pass `literal` to transform the text between the tokens the way `s` was,
+// eg, when `s` is a slugified filename.
+// Only the year, month, day and week tokens count, so check the result by formatting it again.
+export const parseDate = (
+  s: string,
+  format: string,
+  literal: (text: string) => string = (text) => text
+): Date | undefined => {
+  let tokens: Array<string> = [];
+  let rx = '';
+  let last = 0;
+  let names = (list: Array<string>, length?: number) =>
+    `(${list.map((n) => n.slice(0, length)).join('|')})`;
+  format.replace(rxDateTokens, (token: string, escaped: string | undefined, offset: number) => {
+    rx += escapeRegExp(literal(format.slice(last, offset) + (escaped || '')));
+    last = offset + token.length;
+    if (escaped === undefined) {
+      tokens.push(token);
+      if (token == 'MMMM' || token == 'dddd') {
+        rx += names(token == 'MMMM' ? MONTHS : WEEKDAYS);
+      } else if (token == 'MMM' || token == 'ddd') {
+        rx += names(token == 'MMM' ? MONTHS : WEEKDAYS, 3);
+      } else {
+        rx += token.length == 1 ? '(\\d{1,2})' : `(\\d{${token.length}})`;
+      }
+    }
+    return token;
+  });
+  rx += escapeRegExp(literal(format.slice(last)));
+  let match = s.match(new RegExp(`^${rx}$`, 'i'));
+  if (!match) {
+    return undefined;
+  }
+  let parts: Record<string, number> = {};
+  tokens.map((token, i) => {
+    let value = match![i + 1];
+    if (token == 'MMMM' || token == 'MMM') {
+      let month = MONTHS.findIndex((m) => m.toLowerCase().startsWith(value.toLowerCase()));
+      parts.month = month + 1;
+    } else if (token == 'YY') {
+      parts.year = 2000 + parseInt(value, 10);
+    } else if (token.startsWith('Y')) {
+      parts.year = parseInt(value, 10);
+    } else if (token == 'GGGG') {
+      parts.weekYear = parseInt(value, 10);
+    } else if (token.startsWith('M')) {
+      parts.month = parseInt(value, 10);
+    } else if (token.startsWith('D')) {
+      parts.day = parseInt(value, 10);
+    } else if (token.startsWith('W')) {
+      parts.week = parseInt(value, 10);
+    }
+  });
+  if (parts.week !== undefined) {
+    return isoWeekStart(parts.weekYear || parts.year || new Date().getFullYear(), parts.week);
+  }
+  if (parts.year === undefined) {
+    return undefined;
+  }
+  return new Date(parts.year, (parts.month || 1) - 1, parts.day || 1);
+};